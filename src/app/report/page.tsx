@@ -0,0 +1,7 @@
+'use client'
+
+import ScenarioReport from '../../components/scenario-report'
+
+export default function Report() {
+  return <ScenarioReport />
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import React from "react";
+import { Button } from "./ui/button";
+import { Distribution } from "../lib/tokenomics";
+import {
+  BENCHMARK_COLORS,
+  BENCHMARK_PROFILES,
+  BENCHMARK_ROLES,
+  BENCHMARK_SECTORS,
+  BenchmarkComparison,
+  BenchmarkMetric,
+  BenchmarkSector,
+  compareToBenchmarks,
+} from "../lib/benchmarks";
+
+const MAX_BENCHMARK_OVERLAYS = BENCHMARK_COLORS.length;
+
+const METRICS: { value: BenchmarkMetric; label: string; unit: string }[] = [
+  { value: "percentage", label: "Allocation", unit: "%" },
+  { value: "tge", label: "TGE", unit: "%" },
+  { value: "cliff", label: "Cliff", unit: " mo" },
+  { value: "duration", label: "Vesting", unit: " mo" },
+];
+
+const ordinal = (value: number) => {
+  const rounded = Math.round(value);
+  const suffix =
+    rounded % 100 >= 11 && rounded % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][rounded % 10] ?? "th";
+  return `${rounded}${suffix}`;
+};
+
+const roleLabel = ({ role }: BenchmarkComparison) =>
+  BENCHMARK_ROLES.find(({ value }) => value === role).label;
+
+const formatValue = (value: number, unit: string) =>
+  `${Number(value.toFixed(1))}${unit}`;
+
+interface BenchmarkPanelProps {
+  distribution: Distribution;
+  // Undefined compares against every sector
+  sector?: BenchmarkSector;
+  onSectorChange: (sector?: BenchmarkSector) => void;
+  // Profiles overlaid on the charts, in selection order
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+}
+
+// Where the value sits within the profiles: the full range as a track, the
+// interquartile range as a band and the median as a tick
+const BandBar = ({ comparison }: { comparison: BenchmarkComparison }) => {
+  const { band, value } = comparison;
+  const max = Math.max(band.max, value) || 1;
+  const position = (amount: number) => `${(amount / max) * 100}%`;
+  return (
+    <div className="relative h-2 w-full rounded bg-[#14101b]">
+      <div
+        className="absolute h-2 rounded bg-white/10"
+        style={{ left: position(band.min), width: position(band.max - band.min) }}
+      />
+      <div
+        className="absolute h-2 rounded bg-white/30"
+        style={{ left: position(band.p25), width: position(band.p75 - band.p25) }}
+      />
+      <div
+        className="absolute h-2 w-px bg-white/70"
+        style={{ left: position(band.median) }}
+      />
+      <div
+        className="absolute -top-0.5 h-3 w-1 -ml-0.5 rounded bg-[#FF9F43]"
+        style={{ left: position(value) }}
+      />
+    </div>
+  );
+};
+
+const BenchmarkPanel = ({
+  distribution,
+  sector,
+  onSectorChange,
+  selectedIds,
+  onSelectedIdsChange,
+}: BenchmarkPanelProps) => {
+  // Overlaid profiles stay listed after switching sectors so they can be removed
+  const profiles = BENCHMARK_PROFILES.filter(
+    (benchmark) =>
+      !sector || benchmark.sector === sector || selectedIds.includes(benchmark.id),
+  );
+  const comparisons = compareToBenchmarks(distribution, sector);
+  const sectorLabel = sector
+    ? `${BENCHMARK_SECTORS.find(({ value }) => value === sector).label} launches`
+    : "all launches";
+
+  const toggleSelected = (id: string) => {
+    onSelectedIdsChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : selectedIds.length < MAX_BENCHMARK_OVERLAYS
+          ? [...selectedIds, id]
+          : selectedIds,
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg border border-[#ffffff1a] bg-[#1c1525]">
+      <div>
+        <h3 className="text-sm font-medium text-white">Benchmarks</h3>
+        <div className="text-sm text-gray-400">
+          Anonymized reference launches, compared by category role. Overlay up
+          to {MAX_BENCHMARK_OVERLAYS} on the charts
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[{ value: undefined, label: "All" }, ...BENCHMARK_SECTORS].map(
+          ({ value, label }) => (
+            <Button
+              key={label}
+              variant="ghost"
+              size="sm"
+              onClick={() => onSectorChange(value)}
+              className={
+                sector === value
+                  ? "bg-white text-[#14101b] hover:bg-white/90"
+                  : "text-white"
+              }
+            >
+              {label}
+            </Button>
+          ),
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {profiles.map((benchmark) => {
+          const index = selectedIds.indexOf(benchmark.id);
+          return (
+            <Button
+              key={benchmark.id}
+              variant="outline"
+              size="sm"
+              disabled={index === -1 && selectedIds.length >= MAX_BENCHMARK_OVERLAYS}
+              onClick={() => toggleSelected(benchmark.id)}
+              className={
+                index !== -1
+                  ? "bg-[#2a2333] border-white/60 text-white hover:bg-[#2a2333]"
+                  : "bg-transparent border-[#ffffff1a] text-gray-300 hover:bg-[#2a2333] hover:text-white"
+              }
+            >
+              {index !== -1 && (
+                <span
+                  className="inline-block h-2 w-2 rounded-full mr-2"
+                  style={{ backgroundColor: BENCHMARK_COLORS[index] }}
+                />
+              )}
+              {benchmark.name}
+            </Button>
+          );
+        })}
+      </div>
+
+      <ul className="text-sm text-gray-300 space-y-1">
+        {comparisons
+          .filter(({ metric }) => metric === "percentage")
+          .map((comparison) => (
+            <li key={comparison.role}>
+              {roleLabel(comparison)} {formatValue(comparison.value, "%")} is at
+              the {ordinal(comparison.rank)} percentile for {sectorLabel}
+            </li>
+          ))}
+      </ul>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-gray-300">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-1 pr-2 font-medium">Role</th>
+              <th className="py-1 pr-2 font-medium">Metric</th>
+              <th className="py-1 pr-2 font-medium text-right">Yours</th>
+              <th className="py-1 pr-2 font-medium text-right">P25–P75</th>
+              <th className="py-1 pr-2 font-medium text-right">Percentile</th>
+              <th className="py-1 w-32" />
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map((comparison) => {
+              const metric = METRICS.find(({ value }) => value === comparison.metric);
+              return (
+                <tr
+                  key={`${comparison.role}-${comparison.metric}`}
+                  className="border-t border-[#ffffff1a]"
+                >
+                  <td className="py-1 pr-2 text-white">
+                    {comparison.metric === "percentage" && roleLabel(comparison)}
+                  </td>
+                  <td className="py-1 pr-2">{metric.label}</td>
+                  <td className="py-1 pr-2 text-right text-white">
+                    {formatValue(comparison.value, metric.unit)}
+                  </td>
+                  <td className="py-1 pr-2 text-right">
+                    {formatValue(comparison.band.p25, "")}–
+                    {formatValue(comparison.band.p75, metric.unit)}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{ordinal(comparison.rank)}</td>
+                  <td className="py-1">
+                    <BandBar comparison={comparison} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
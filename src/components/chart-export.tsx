@@ -0,0 +1,83 @@
+"use client";
+
+import React, { RefObject, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  ChartBackground,
+  LegendEntry,
+  exportChartPng,
+  exportChartSvg,
+} from "../lib/chart-image";
+
+const BACKGROUNDS: { value: ChartBackground; label: string }[] = [
+  { value: "transparent", label: "Transparent" },
+  { value: "light", label: "Light" },
+];
+
+interface ChartExportProps {
+  // Element wrapping the recharts chart and its legend
+  chartRef: RefObject<HTMLElement>;
+  fileName: string;
+  // For charts rendered without a recharts legend
+  legend?: LegendEntry[];
+}
+
+const ChartExport = ({ chartRef, fileName, legend }: ChartExportProps) => {
+  const [background, setBackground] = useState<ChartBackground>("light");
+  const [error, setError] = useState<string>();
+
+  // SVG export throws synchronously and PNG export rejects; both land here
+  const runExport = async (
+    exportChart: typeof exportChartSvg | typeof exportChartPng,
+  ) => {
+    setError(undefined);
+    try {
+      await exportChart(chartRef.current, fileName, background, legend);
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1">
+        <select
+          value={background}
+          onChange={(e) => setBackground(e.target.value as ChartBackground)}
+          className="h-8 rounded-md border border-[#ffffff1a] bg-[#14101b] px-2 text-xs text-white"
+          title="Image background"
+        >
+          {BACKGROUNDS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => runExport(exportChartSvg)}
+          className="text-gray-300 hover:text-white"
+          title="Download SVG"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          SVG
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => runExport(exportChartPng)}
+          className="text-gray-300 hover:text-white"
+          title="Download high-resolution PNG"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          PNG
+        </Button>
+      </div>
+      {error && <div className="text-xs text-red-300">{error}</div>}
+    </div>
+  );
+};
+
+export default ChartExport;
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, Redo2, Undo2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { EditHistory as History, HistoryEntry } from "../lib/history";
+
+// Recent changes shown in the panel; older ones can still be undone
+const MAX_LISTED = 20;
+
+interface EditHistoryProps {
+  history: History;
+  // Steps to undo or redo, one for the buttons and shortcuts
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const EditHistory = ({ history, onUndo, onRedo }: EditHistoryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { past, future } = history;
+  const isMac =
+    typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+  const modifier = isMac ? "⌘" : "Ctrl+";
+
+  const renderEntry = (entry: HistoryEntry, isUndone: boolean, onClick: () => void) => (
+    <li key={`${entry.time}-${entry.label}`}>
+      <button
+        onClick={onClick}
+        className={`flex w-full justify-between gap-4 rounded px-2 py-1 text-left text-xs hover:bg-[#14101b] ${
+          isUndone ? "text-gray-500 line-through" : "text-gray-200"
+        }`}
+        title={isUndone ? "Redo up to this change" : "Undo back to before this change"}
+      >
+        <span>{entry.label}</span>
+        <span className="text-gray-500">{formatTime(entry.time)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={past.length === 0}
+          onClick={() => onUndo(1)}
+          className="text-gray-300 hover:text-white"
+          title={`Undo (${modifier}Z)`}
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={future.length === 0}
+          onClick={() => onRedo(1)}
+          className="text-gray-300 hover:text-white"
+          title={`Redo (${isMac ? "⌘⇧Z" : "Ctrl+Y"})`}
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={past.length === 0 && future.length === 0}
+          onClick={() => setIsOpen((prev) => !prev)}
+          className="text-gray-300 hover:text-white"
+        >
+          {isOpen ? (
+            <ChevronUp className="h-4 w-4 mr-1" />
+          ) : (
+            <ChevronDown className="h-4 w-4 mr-1" />
+          )}
+          History ({past.length})
+        </Button>
+      </div>
+
+      {isOpen && (
+        <ul className="p-2 rounded-lg bg-[#2a2333] space-y-0.5">
+          {/* Undone changes on top, furthest first, then the newest edit */}
+          {future
+            .slice(0, MAX_LISTED)
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => renderEntry(entry, true, () => onRedo(index + 1)))}
+          {past
+            .slice(-MAX_LISTED)
+            .map((entry, index, listed) => ({
+              entry,
+              steps: listed.length - index,
+            }))
+            .reverse()
+            .map(({ entry, steps }) => renderEntry(entry, false, () => onUndo(steps)))}
+          {past.length > MAX_LISTED && (
+            <li className="px-2 py-1 text-xs text-gray-500">
+              {past.length - MAX_LISTED} earlier changes
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EditHistory;
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, Info, RotateCcw } from "lucide-react";
+import { Alert, AlertTitle, AlertDescription } from "./ui/alert";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { BUILT_IN_RULES } from "../lib/built-in-rules";
+import {
+  RULE_SEVERITIES,
+  RuleFinding,
+  RuleSetting,
+  RuleSettings,
+  RuleSeverity,
+  isRuleEnabled,
+  ruleSeverity,
+  ruleThreshold,
+} from "../lib/rules";
+
+const SEVERITY_STYLES: Record<RuleSeverity, string> = {
+  critical: "bg-red-900/50 border-red-700",
+  warning: "bg-yellow-900/40 border-yellow-700",
+  info: "bg-[#2a2333] border-[#ffffff1a]",
+};
+
+const SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  critical: "Critical",
+  warning: "Warning",
+  info: "Info",
+};
+
+interface HealthRulesProps {
+  findings: RuleFinding[];
+  settings: RuleSettings;
+  onChange: (settings: RuleSettings) => void;
+}
+
+const HealthRules = ({ findings, settings, onChange }: HealthRulesProps) => {
+  const [isConfiguring, setIsConfiguring] = useState(false);
+
+  // Settings equal to the rule's defaults are dropped to keep scenarios lean.
+  // Thresholds are clamped to the rule's range, which imports also enforce.
+  const updateRule = (id: string, changes: RuleSetting) => {
+    const { [id]: current, ...others } = settings;
+    const rule = BUILT_IN_RULES.find((candidate) => candidate.id === id);
+    const { threshold } = changes;
+    if (threshold !== undefined && !Number.isFinite(threshold)) return;
+    const next = {
+      ...current,
+      ...changes,
+      ...(threshold !== undefined && {
+        threshold: Math.min(
+          rule.threshold.max ?? Infinity,
+          Math.max(rule.threshold.min, threshold),
+        ),
+      }),
+    };
+    if (next.enabled !== false) delete next.enabled;
+    if (next.threshold === rule.threshold.value) delete next.threshold;
+    if (next.severity === rule.severity) delete next.severity;
+    onChange(Object.keys(next).length > 0 ? { ...others, [id]: next } : others);
+  };
+
+  return (
+    <div className="space-y-2">
+      {findings.map((finding) => (
+        <Alert
+          key={finding.ruleId}
+          variant={finding.severity === "critical" ? "destructive" : "default"}
+          className={SEVERITY_STYLES[finding.severity]}
+        >
+          {finding.severity === "info" ? (
+            <Info className="h-4 w-4" />
+          ) : (
+            <AlertTriangle className="h-4 w-4" />
+          )}
+          <AlertTitle className="text-white">
+            {SEVERITY_LABELS[finding.severity]}: {finding.name}
+          </AlertTitle>
+          <AlertDescription className="text-gray-200">
+            <div>{finding.message}</div>
+            <div className="mt-1 text-xs text-gray-400">{finding.rationale}</div>
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsConfiguring((prev) => !prev)}
+        className="text-gray-300 hover:text-white"
+      >
+        {isConfiguring ? (
+          <ChevronUp className="h-4 w-4 mr-1" />
+        ) : (
+          <ChevronDown className="h-4 w-4 mr-1" />
+        )}
+        Health rules
+        {Object.keys(settings).length > 0 && " (customized)"}
+      </Button>
+
+      {isConfiguring && (
+        <div className="p-4 rounded-lg bg-[#2a2333] space-y-3">
+          <div className="flex justify-between items-center">
+            <div className="text-sm text-gray-400">
+              Rule settings are saved with this scenario
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={Object.keys(settings).length === 0}
+              onClick={() => onChange({})}
+              className="text-gray-300 hover:text-white"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+          </div>
+          {BUILT_IN_RULES.map((rule) => {
+            const enabled = isRuleEnabled(rule, settings);
+            return (
+              <div
+                key={rule.id}
+                className="grid grid-cols-[auto_1fr_auto_auto] items-center gap-3 pt-3 border-t border-[#ffffff1a]"
+              >
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="h-4 w-4 accent-white"
+                />
+                <div className={enabled ? "" : "opacity-50"}>
+                  <div className="text-sm text-white">{rule.name}</div>
+                  <div className="text-xs text-gray-400">{rule.rationale}</div>
+                </div>
+                <select
+                  value={ruleSeverity(rule, settings)}
+                  disabled={!enabled}
+                  onChange={(e) =>
+                    updateRule(rule.id, { severity: e.target.value as RuleSeverity })
+                  }
+                  className="h-9 rounded-md border border-[#ffffff1a] bg-[#14101b] px-2 text-xs text-white"
+                >
+                  {RULE_SEVERITIES.map((severity) => (
+                    <option key={severity} value={severity}>
+                      {SEVERITY_LABELS[severity]}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-xs text-gray-300" title={rule.threshold.label}>
+                  <Input
+                    type="number"
+                    value={ruleThreshold(rule, settings)}
+                    disabled={!enabled}
+                    min={rule.threshold.min}
+                    max={rule.threshold.max}
+                    step={rule.threshold.step}
+                    onChange={(e) =>
+                      e.target.value !== "" &&
+                      updateRule(rule.id, { threshold: Number(e.target.value) })
+                    }
+                    className="w-20 bg-[#14101b] border-[#ffffff1a] text-white"
+                  />
+                  {rule.threshold.unit}
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HealthRules;
@@ -0,0 +1,341 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { X } from "lucide-react";
+import { Button } from "./ui/button";
+import { SavedScenario } from "../lib/scenario-store";
+import { TokenomicsMetrics, monthlyUnlocks } from "../lib/tokenomics";
+import { ScenarioRun, runScenarios } from "../lib/schedule-runner";
+import { formatUsd } from "../lib/format";
+
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 4;
+const COMPARE_COLORS = ["#FFFFFF", "#4ECDC4", "#FF6B6B", "#FFEEAD"];
+
+interface ScenarioCompareProps {
+  scenarios: SavedScenario[];
+  // Shown first and selected by default
+  activeId: string;
+  onClose: () => void;
+}
+
+interface MetricRow {
+  label: string;
+  value: (metrics: TokenomicsMetrics) => number;
+  format: (value: number) => string;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  {
+    label: "TGE Circulating",
+    value: (metrics) => metrics.tgeCirculatingPercent,
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  {
+    label: "Initial Market Cap",
+    value: (metrics) => metrics.initialMarketCap,
+    format: formatUsd,
+  },
+  {
+    label: "Fully Diluted Value",
+    value: (metrics) => metrics.fdv,
+    format: formatUsd,
+  },
+  {
+    label: "FDV/MCap Ratio",
+    value: (metrics) => metrics.fdvToMcapRatio,
+    format: (value) => (Number.isFinite(value) ? `${value.toFixed(1)}x` : "∞"),
+  },
+];
+
+const formatDelta = (row: MetricRow, value: number, baseline: number) => {
+  if (!Number.isFinite(value) || !Number.isFinite(baseline)) return "";
+  const delta = value - baseline;
+  if (Math.abs(delta) < 1e-9) return "±0";
+  return `${delta > 0 ? "+" : "-"}${row.format(Math.abs(delta))}`;
+};
+
+const ScenarioCompare = ({ scenarios, activeId, onClose }: ScenarioCompareProps) => {
+  const ordered = [
+    ...scenarios.filter((saved) => saved.id === activeId),
+    ...scenarios.filter((saved) => saved.id !== activeId),
+  ];
+  const [selectedIds, setSelectedIds] = useState(() =>
+    ordered.slice(0, MIN_COMPARED).map((saved) => saved.id),
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((selected) => selected !== id)
+        : prev.length < MAX_COMPARED
+          ? [...prev, id]
+          : prev,
+    );
+  };
+
+  const selected = ordered.filter((saved) => selectedIds.includes(saved.id));
+  // The active scenario arrives as a fresh object on every render, so reruns
+  // are keyed on content
+  const selectedKey = JSON.stringify(
+    selected.map(({ id, scenario }) => ({ id, scenario })),
+  );
+  const requested = useMemo(
+    () => JSON.parse(selectedKey) as Pick<SavedScenario, "id" | "scenario">[],
+    [selectedKey],
+  );
+  // Latest schedules and metrics by scenario id, computed in the worker
+  const [runs, setRuns] = useState<Record<string, ScenarioRun>>({});
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    // Results of a superseded selection or edit are dropped
+    let isCurrent = true;
+    runScenarios(requested.map(({ scenario }) => scenario))
+      .then((results) => {
+        if (!isCurrent) return;
+        setRuns(Object.fromEntries(requested.map(({ id }, index) => [id, results[index]])));
+        setError(undefined);
+      })
+      .catch((e) => isCurrent && setError(e.message));
+    return () => {
+      isCurrent = false;
+    };
+  }, [requested]);
+
+  const compared = selected
+    .map((saved, index) => ({ saved, index, run: runs[saved.id] }))
+    .filter(({ run }) => run)
+    .map(({ saved, index, run }) => ({
+      ...saved,
+      color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+      ...run,
+      unlocks: monthlyUnlocks(run.unlockSchedule),
+    }));
+  const [baseline] = compared;
+
+  const maxMonth = Math.max(
+    0,
+    ...compared.map(({ unlockSchedule }) =>
+      Math.floor(unlockSchedule[unlockSchedule.length - 1].month),
+    ),
+  );
+  const chartData = Array.from({ length: maxMonth + 1 }, (_, month) => ({
+    month,
+    ...Object.fromEntries(
+      compared.map(({ id, unlocks }) => [id, unlocks[month]?.percentCirculating]),
+    ),
+  }));
+
+  // Categories are matched by key, so renamed copies still line up
+  const categoryKeys = Array.from(
+    new Set(compared.flatMap(({ scenario }) => Object.keys(scenario.distribution))),
+  );
+
+  return (
+    <div className="space-y-6 p-4 rounded-lg border border-[#ffffff1a] bg-[#1c1525]">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-medium text-white">Compare Scenarios</h3>
+          <div className="text-sm text-gray-400">
+            Pick {MIN_COMPARED} to {MAX_COMPARED} scenarios; deltas are against
+            the first
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ordered.map((saved) => {
+          const isSelected = selectedIds.includes(saved.id);
+          return (
+            <Button
+              key={saved.id}
+              variant="ghost"
+              size="sm"
+              disabled={!isSelected && selectedIds.length >= MAX_COMPARED}
+              onClick={() => toggleSelected(saved.id)}
+              className={`border border-[#ffffff1a] ${
+                isSelected
+                  ? "bg-white text-[#14101b] hover:bg-white/90"
+                  : "text-white"
+              }`}
+            >
+              {saved.name}
+            </Button>
+          );
+        })}
+      </div>
+
+      {error ? (
+        <div className="text-sm text-red-300">{error}</div>
+      ) : selected.length < MIN_COMPARED ? (
+        <div className="text-sm text-gray-400">
+          Select at least {MIN_COMPARED} scenarios to compare.
+        </div>
+      ) : compared.length < MIN_COMPARED ? (
+        <div className="text-sm text-gray-400">Computing schedules…</div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-8">
+          <div>
+            <h4 className="text-sm font-medium mb-4 text-white">
+              Circulating Supply
+            </h4>
+            <LineChart
+              width={500}
+              height={320}
+              data={chartData}
+              margin={{ top: 10, right: 30, left: 20, bottom: 30 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#ffffff1a" />
+              <XAxis
+                dataKey="month"
+                type="number"
+                domain={[0, maxMonth]}
+                stroke="#fff"
+                label={{
+                  value: "Months After TGE",
+                  position: "insideBottom",
+                  offset: -20,
+                  fill: "#fff",
+                }}
+              />
+              <YAxis
+                stroke="#fff"
+                domain={[0, 100]}
+                ticks={[0, 20, 40, 60, 80, 100]}
+                tickFormatter={(value) => `${value}%`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "#2a2333",
+                  border: "1px solid rgba(255, 255, 255, 0.1)",
+                  borderRadius: "8px",
+                  color: "#fff",
+                }}
+                labelFormatter={(month) => `Month ${month}`}
+                formatter={(value: number) => `${value.toFixed(1)}%`}
+              />
+              <Legend wrapperStyle={{ paddingTop: "20px", fontSize: "11px" }} />
+              {compared.map(({ id, name, color }) => (
+                <Line
+                  key={id}
+                  type="linear"
+                  dataKey={id}
+                  name={name}
+                  stroke={color}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </div>
+
+          <div className="space-y-6">
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-1 pr-2 font-medium">Metric</th>
+                  {compared.map(({ id, name, color }) => (
+                    <th key={id} className="py-1 pr-2 font-medium text-right">
+                      <span style={{ color }}>{name}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {METRIC_ROWS.map((row) => (
+                  <tr key={row.label} className="border-t border-[#ffffff1a]">
+                    <td className="py-1 pr-2 text-white">{row.label}</td>
+                    {compared.map(({ id, metrics }) => {
+                      const value = row.value(metrics);
+                      return (
+                        <td key={id} className="py-1 pr-2 text-right">
+                          <div>{row.format(value)}</div>
+                          {id !== baseline.id && (
+                            <div className="text-gray-500">
+                              {formatDelta(row, value, row.value(baseline.metrics))}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-1 pr-2 font-medium">Allocation</th>
+                  {compared.map(({ id, name, color }) => (
+                    <th key={id} className="py-1 pr-2 font-medium text-right">
+                      <span style={{ color }}>{name}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categoryKeys.map((category) => {
+                  const baselinePercentage =
+                    baseline.scenario.distribution[category]?.percentage ?? 0;
+                  const label = compared
+                    .map(({ scenario }) => scenario.distribution[category]?.name)
+                    .find(Boolean);
+                  return (
+                    <tr key={category} className="border-t border-[#ffffff1a]">
+                      <td className="py-1 pr-2 text-white">{label}</td>
+                      {compared.map(({ id, scenario }) => {
+                        const percentage =
+                          scenario.distribution[category]?.percentage ?? 0;
+                        const isDifferent =
+                          id !== baseline.id &&
+                          Math.abs(percentage - baselinePercentage) > 1e-9;
+                        return (
+                          <td
+                            key={id}
+                            className={`py-1 pr-2 text-right ${
+                              isDifferent
+                                ? percentage > baselinePercentage
+                                  ? "bg-green-900/40 text-green-300"
+                                  : "bg-red-900/40 text-red-300"
+                                : ""
+                            }`}
+                          >
+                            {scenario.distribution[category]
+                              ? `${percentage.toFixed(1)}%`
+                              : "-"}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioCompare;
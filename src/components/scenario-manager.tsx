@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import {
+  Copy,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+  Check,
+  GitCompare,
+  Link,
+  Download,
+  Upload,
+  FileText,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScenarioStore } from "../lib/scenario-store";
+
+interface ScenarioManagerProps {
+  store: ScenarioStore;
+  isDirty: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onSave: () => void;
+  onAutosaveChange: (autosave: boolean) => void;
+  onCompare: () => void;
+  // Resolves once the link is on the clipboard
+  onShare: () => Promise<void>;
+  onExport: () => void;
+  // Resolves once the file is opened; read and parse failures are reported
+  // by the handler rather than rejected
+  onImport: (file: File) => Promise<void>;
+  onReport: () => void;
+}
+
+const COPIED_NOTICE_MS = 2000;
+
+const ScenarioManager = ({
+  store,
+  isDirty,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onSave,
+  onAutosaveChange,
+  onCompare,
+  onShare,
+  onExport,
+  onImport,
+  onReport,
+}: ScenarioManagerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [shareStatus, setShareStatus] = useState<"copied" | "failed" | null>(
+    null,
+  );
+  const active = store.scenarios.find((saved) => saved.id === store.activeId);
+  const [name, setName] = useState(active?.name ?? "");
+
+  const startRename = () => {
+    setName(active?.name ?? "");
+    setIsRenaming(true);
+  };
+
+  const finishRename = () => {
+    if (name.trim()) {
+      onRename(name.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  const share = async () => {
+    try {
+      await onShare();
+      setShareStatus("copied");
+    } catch {
+      setShareStatus("failed");
+    }
+    setTimeout(() => setShareStatus(null), COPIED_NOTICE_MS);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-4 rounded-lg bg-[#2a2333]">
+      <span className="text-sm font-medium text-white mr-2">Scenario</span>
+      {isRenaming ? (
+        <Input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={finishRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") finishRename();
+            if (e.key === "Escape") setIsRenaming(false);
+          }}
+          className="w-56 bg-[#14101b] border-[#ffffff1a] text-white"
+        />
+      ) : (
+        <select
+          value={store.activeId}
+          onChange={(e) => onSwitch(e.target.value)}
+          className="h-9 w-56 rounded-md border border-[#ffffff1a] bg-[#14101b] px-3 text-sm text-white"
+        >
+          {store.scenarios.map((saved) => (
+            <option key={saved.id} value={saved.id}>
+              {saved.name}
+              {saved.id === store.activeId && isDirty ? " *" : ""}
+            </option>
+          ))}
+        </select>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={isRenaming ? finishRename : startRename}
+        className="text-gray-300 hover:text-white"
+        title="Rename"
+      >
+        {isRenaming ? <Check className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onCreate}
+        className="text-gray-300 hover:text-white"
+        title="New scenario"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onDuplicate}
+        className="text-gray-300 hover:text-white"
+        title="Duplicate"
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onDelete}
+        className="text-gray-300 hover:text-red-400"
+        title="Delete"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={store.scenarios.length < 2}
+        onClick={onCompare}
+        className="text-gray-300 hover:text-white"
+      >
+        <GitCompare className="h-4 w-4 mr-1" />
+        Compare
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={share}
+        className="text-gray-300 hover:text-white"
+        title="Copy a link to this scenario"
+      >
+        <Link className="h-4 w-4 mr-1" />
+        {shareStatus === "copied"
+          ? "Link copied"
+          : shareStatus === "failed"
+            ? "Copy failed"
+            : "Share"}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onExport}
+        className="text-gray-300 hover:text-white"
+        title="Export as JSON"
+      >
+        <Download className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        className="text-gray-300 hover:text-white"
+        title="Import JSON"
+      >
+        <Upload className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onReport}
+        className="text-gray-300 hover:text-white"
+        title="Printable report"
+      >
+        <FileText className="h-4 w-4" />
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const [file] = Array.from(e.target.files ?? []);
+          // Reset so picking the same file again still fires
+          e.target.value = "";
+          if (file) onImport(file);
+        }}
+      />
+      <div className="flex items-center gap-3 ml-auto">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={store.autosave}
+            onChange={(e) => onAutosaveChange(e.target.checked)}
+            className="h-4 w-4 accent-white"
+          />
+          Autosave
+        </label>
+        {!store.autosave && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!isDirty}
+            onClick={onSave}
+            className="border border-[#ffffff1a] text-white"
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        )}
+        <span className="text-xs text-gray-400">
+          {isDirty ? "Unsaved changes" : "All changes saved"}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioManager;
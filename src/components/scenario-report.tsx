@@ -0,0 +1,437 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  PieChart,
+  Pie,
+  Cell,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+} from "recharts";
+import { Printer } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  ALLOCATION_TOLERANCE,
+  TokenomicsScenario,
+  VestingCurve,
+  calculateMetrics,
+  categoryTokens,
+  generateUnlockSchedule,
+  monthlyUnlocks,
+  resolveHorizonMonths,
+  totalAllocation,
+} from "../lib/tokenomics";
+import { hasBurns } from "../lib/burns";
+import { isFundingRound } from "../lib/fundraising";
+import { BUILT_IN_RULES } from "../lib/built-in-rules";
+import { loadScenarioStore } from "../lib/scenario-store";
+import { SHARE_PARAM, decodeScenario } from "../lib/share-url";
+import { formatDate, formatTokens, formatUsd } from "../lib/format";
+
+// Sized to fit an A4 page between print margins
+const CHART_WIDTH = 640;
+
+// The planner's layer colors, with the net supply line darkened to show on paper
+const EMISSIONS_COLOR = "#B8B8D1";
+const NET_SUPPLY_COLOR = "#374151";
+const NET_CIRCULATING_COLOR = "#FF9F43";
+
+const CURVE_LABELS: Record<VestingCurve, string> = {
+  linear: "Linear",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  exponential: "Decay",
+  milestones: "Custom milestones",
+};
+
+interface LoadedReport {
+  name: string;
+  scenario: TokenomicsScenario;
+}
+
+// The report reads a scenario from a share link, falling back to the
+// planner's active saved scenario
+const loadReport = (): LoadedReport | { errors: string[] } => {
+  const params = new URLSearchParams(window.location.search);
+  const shared = params.get(SHARE_PARAM);
+  if (shared) {
+    const result = decodeScenario(shared);
+    if ("errors" in result) return result;
+    return {
+      name: params.get("name") || "Shared scenario",
+      scenario: result.scenario,
+    };
+  }
+
+  const store = loadScenarioStore();
+  const active = store.scenarios.find((saved) => saved.id === store.activeId);
+  return { name: active.name, scenario: active.scenario };
+};
+
+const Section = ({
+  title,
+  breakBefore = false,
+  children,
+}: {
+  title: string;
+  breakBefore?: boolean;
+  children: React.ReactNode;
+}) => (
+  <section className={`report-section space-y-3 ${breakBefore ? "report-page-break" : ""}`}>
+    <h2 className="text-lg font-semibold border-b border-gray-300 pb-1">
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+const ScenarioReport = () => {
+  const [report, setReport] = useState<LoadedReport | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const loaded = loadReport();
+    if ("errors" in loaded) setErrors(loaded.errors);
+    else setReport(loaded);
+  }, []);
+
+  if (errors) {
+    return (
+      <div className="p-8 text-red-700 space-y-2">
+        <div className="font-medium">Could not open shared link</div>
+        <ul className="list-disc pl-5">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+  if (!report) return null;
+
+  const { name, scenario } = report;
+  const { distribution, totalSupply, initialTokenPrice, emissions, burns, liquidity } =
+    scenario;
+  const unlockSchedule = generateUnlockSchedule(scenario, "steps");
+  const metrics = calculateMetrics(scenario, unlockSchedule, BUILT_IN_RULES);
+  const unlocks = monthlyUnlocks(unlockSchedule);
+  const horizon = resolveHorizonMonths(scenario);
+  const categories = Object.entries(distribution);
+  const allocationTokens = categoryTokens(scenario);
+  // Reports open whatever state the planner is in, including unfinished plans
+  const unallocated = 100 - totalAllocation(distribution);
+
+  const pieData = categories.map(([category, data]) => ({
+    category,
+    name: data.name,
+    value: data.percentage,
+    color: data.color,
+  }));
+
+  return (
+    <div className="report min-h-screen bg-white text-gray-900">
+      <div className="max-w-4xl mx-auto p-8 space-y-8 text-sm">
+        <header className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold">{name}</h1>
+            <div className="text-gray-600">
+              Tokenomics report, generated{" "}
+              {new Date().toLocaleDateString(undefined, { dateStyle: "long" })}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.print()}
+            className="print:hidden"
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            Print / Save as PDF
+          </Button>
+        </header>
+
+        <Section title="Key Metrics">
+          <div className="grid grid-cols-4 gap-4">
+            {[
+              ["Initial Supply", formatTokens(totalSupply)],
+              ["Initial Token Price", `$${initialTokenPrice}`],
+              ["TGE Circulating", `${metrics.tgeCirculatingPercent.toFixed(1)}%`],
+              ["Initial Market Cap", formatUsd(metrics.initialMarketCap)],
+              ["Fully Diluted Value", formatUsd(metrics.fdv)],
+              [
+                "FDV/MCap Ratio",
+                Number.isFinite(metrics.fdvToMcapRatio)
+                  ? `${metrics.fdvToMcapRatio.toFixed(1)}x`
+                  : "∞",
+              ],
+              [`Supply at Month ${horizon}`, formatTokens(metrics.finalTotalSupply)],
+              [`FDV at Month ${horizon}`, formatUsd(metrics.finalFdv)],
+            ].map(([label, value]) => (
+              <div key={label} className="p-3 rounded border border-gray-300">
+                <div className="text-xs text-gray-600">{label}</div>
+                <div className="text-base font-semibold">{value}</div>
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Allocation">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-300">
+                <th className="py-1 pr-2 font-medium">Category</th>
+                <th className="py-1 pr-2 font-medium text-right">Share</th>
+                <th className="py-1 pr-2 font-medium text-right">Tokens</th>
+                <th className="py-1 pr-2 font-medium text-right">TGE</th>
+                <th className="py-1 pr-2 font-medium text-right">Cliff</th>
+                <th className="py-1 pr-2 font-medium text-right">Vesting</th>
+                <th className="py-1 pr-2 font-medium">Curve</th>
+                <th className="py-1 pr-2 font-medium text-right">Round Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(([category, data]) => (
+                <tr key={category} className="border-b border-gray-200">
+                  <td className="py-1 pr-2">
+                    <span
+                      className="inline-block w-2 h-2 mr-2 rounded-full"
+                      style={{ backgroundColor: data.color }}
+                    />
+                    {data.name}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{data.percentage.toFixed(1)}%</td>
+                  <td className="py-1 pr-2 text-right">
+                    {formatTokens(allocationTokens[category])}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{data.tge}%</td>
+                  <td className="py-1 pr-2 text-right">
+                    {data.cliff > 0 ? `${data.cliff} mo` : "-"}
+                  </td>
+                  <td className="py-1 pr-2 text-right">
+                    {data.curve === "milestones" ? "-" : `${data.duration} mo`}
+                  </td>
+                  <td className="py-1 pr-2">{CURVE_LABELS[data.curve]}</td>
+                  <td className="py-1 pr-2 text-right">
+                    {isFundingRound(data) ? `$${data.tokenPrice}` : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {Math.abs(unallocated) > ALLOCATION_TOLERANCE && (
+            <div className="text-xs text-red-700">
+              {unallocated > 0
+                ? `${Number(unallocated.toFixed(2))}% of the initial supply is not allocated yet.`
+                : `Categories are allocated ${Number((-unallocated).toFixed(2))}% over the initial supply.`}
+            </div>
+          )}
+        </Section>
+
+        <Section title="Charts">
+          <div className="flex justify-center">
+            <PieChart width={CHART_WIDTH} height={300}>
+              <Pie
+                data={pieData}
+                dataKey="value"
+                nameKey="name"
+                cx="50%"
+                cy="50%"
+                outerRadius={110}
+                isAnimationActive={false}
+                label={({ name, value }) => `${name} ${value.toFixed(1)}%`}
+              >
+                {pieData.map((entry) => (
+                  <Cell key={entry.category} fill={entry.color} />
+                ))}
+              </Pie>
+            </PieChart>
+          </div>
+          <div className="flex justify-center">
+            <ComposedChart
+              width={CHART_WIDTH}
+              height={320}
+              data={unlockSchedule}
+              margin={{ top: 10, right: 20, left: 10, bottom: 20 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" />
+              <XAxis
+                dataKey="month"
+                type="number"
+                domain={[0, horizon]}
+                stroke="#374151"
+                label={{
+                  value: "Months After TGE",
+                  position: "insideBottom",
+                  offset: -10,
+                  fill: "#374151",
+                }}
+              />
+              <YAxis
+                stroke="#374151"
+                domain={[0, 100]}
+                ticks={[0, 20, 40, 60, 80, 100]}
+                tickFormatter={(value) => `${value}%`}
+              />
+              <Legend wrapperStyle={{ paddingTop: "20px", fontSize: "11px" }} />
+              {categories.map(([category, data]) => (
+                <Area
+                  key={category}
+                  type="linear"
+                  dataKey={`categories.${category}.percentCirculating`}
+                  name={data.name}
+                  stackId="1"
+                  stroke={data.color}
+                  fill={data.color}
+                  fillOpacity={0.8}
+                  isAnimationActive={false}
+                />
+              ))}
+              {emissions.model !== "none" && (
+                <Area
+                  type="linear"
+                  dataKey="percentEmitted"
+                  name="Emissions"
+                  stackId="1"
+                  stroke={EMISSIONS_COLOR}
+                  fill={EMISSIONS_COLOR}
+                  fillOpacity={0.8}
+                  isAnimationActive={false}
+                />
+              )}
+              {hasBurns(burns) && (
+                <>
+                  <Line
+                    type="linear"
+                    dataKey="percentNetSupply"
+                    name="Net Supply"
+                    stroke={NET_SUPPLY_COLOR}
+                    strokeDasharray="6 3"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="linear"
+                    dataKey="percentNetCirculating"
+                    name="Net Circulating"
+                    stroke={NET_CIRCULATING_COLOR}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+            </ComposedChart>
+          </div>
+        </Section>
+
+        <Section title="Warnings">
+          {metrics.findings.length > 0 ? (
+            <ul className="list-disc pl-5 space-y-2">
+              {metrics.findings.map((finding) => (
+                <li key={finding.ruleId}>
+                  <span className="font-medium capitalize">{finding.severity}:</span>{" "}
+                  {finding.message}
+                  <div className="text-xs text-gray-600">{finding.rationale}</div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-gray-600">No warnings for this scenario.</div>
+          )}
+        </Section>
+
+        <Section title="Monthly Unlocks" breakBefore>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-300">
+                <th className="py-1 pr-2 font-medium">Month</th>
+                <th className="py-1 pr-2 font-medium text-right">Unlocked</th>
+                <th className="py-1 pr-2 font-medium text-right">USD Value</th>
+                <th className="py-1 pr-2 font-medium text-right">Circulating</th>
+                <th className="py-1 pr-2 font-medium text-right">Circulating %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unlocks.map((unlock) => (
+                <tr key={unlock.month} className="border-b border-gray-200">
+                  <td className="py-1 pr-2">
+                    {unlock.month === 0 ? "TGE" : `Month ${unlock.month}`}
+                    {unlock.date && (
+                      <span className="ml-2 text-gray-500">
+                        {formatDate(unlock.date)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{formatTokens(unlock.unlocked)}</td>
+                  <td className="py-1 pr-2 text-right">
+                    {formatUsd(unlock.unlocked * initialTokenPrice)}
+                  </td>
+                  <td className="py-1 pr-2 text-right">
+                    {formatTokens(unlock.circulating)}
+                  </td>
+                  <td className="py-1 pr-2 text-right">
+                    {unlock.percentCirculating.toFixed(2)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Assumptions">
+          <ul className="list-disc pl-5 space-y-1">
+            <li>
+              {scenario.tgeDate
+                ? `TGE on ${formatDate(scenario.tgeDate)}; months follow calendar dates${
+                    scenario.alignToMonthEnd ? ", aligned to month ends" : ""
+                  }.`
+                : "No TGE date set; a month is 30 days after TGE."}
+            </li>
+            <li>The schedule runs for {horizon} months after TGE.</li>
+            <li>
+              Market cap and USD values use the initial token price of $
+              {initialTokenPrice}; FDV uses the burn-adjusted supply.
+            </li>
+            <li>
+              Nothing beyond the TGE release unlocks during a cliff. Decay
+              vesting front-loads releases; custom milestones release fixed
+              percentages at set months.
+            </li>
+            <li>
+              {emissions.model === "none"
+                ? "No emissions; the supply is fixed at genesis."
+                : `Emissions: ${emissions.model} model at ${emissions.annualRate}% a year${
+                    emissions.maxSupply
+                      ? `, capped at ${formatTokens(emissions.maxSupply)} tokens`
+                      : ""
+                  }.`}
+            </li>
+            <li>
+              {hasBurns(burns)
+                ? `Burns: ${formatTokens(burns.monthlyAmount)} tokens and ${
+                    burns.monthlyCirculatingPercent
+                  }% of circulating supply each month, plus ${
+                    burns.oneOff.length
+                  } one-off burn(s); ${formatTokens(metrics.totalBurned)} burned by month ${horizon}.`
+                : "No token burns."}
+            </li>
+            {liquidity && distribution[liquidity.category] && (
+              <li>
+                Launch liquidity: the {distribution[liquidity.category].name}{" "}
+                allocation paired with {liquidity.pairedAmount.toLocaleString()}{" "}
+                {liquidity.pairedSymbol} in a constant-product pool.
+              </li>
+            )}
+          </ul>
+        </Section>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioReport;
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "./ui/button";
+import { TokenomicsScenario } from "../lib/tokenomics";
+import { ExportGranularity, scheduleToCsv } from "../lib/schedule-export";
+import { downloadFile, fileSlug } from "../lib/download";
+import { runScenarios } from "../lib/schedule-runner";
+
+const GRANULARITIES: { value: ExportGranularity; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+];
+
+interface ScheduleExportProps {
+  scenario: TokenomicsScenario;
+  tokenPrice: number;
+  scenarioName: string;
+}
+
+const ScheduleExport = ({
+  scenario,
+  tokenPrice,
+  scenarioName,
+}: ScheduleExportProps) => {
+  const [granularity, setGranularity] = useState<ExportGranularity>("monthly");
+  const [includeUsd, setIncludeUsd] = useState(false);
+  // For spreadsheets in locales that write 1,5 rather than 1.5
+  const [decimalComma, setDecimalComma] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  // Daily and weekly rows need the full daily schedule, built in the worker
+  const exportCsv = async () => {
+    setIsExporting(true);
+    setError(undefined);
+    try {
+      const [{ unlockSchedule }] = await runScenarios(
+        [scenario],
+        granularity === "monthly" ? "monthly" : "daily",
+      );
+      const csv = scheduleToCsv(unlockSchedule, scenario.distribution, {
+        granularity,
+        tokenPrice: includeUsd ? tokenPrice : undefined,
+        numberFormat: decimalComma ? "comma" : "point",
+      });
+      downloadFile(
+        `${fileSlug(scenarioName)}-schedule-${granularity}.csv`,
+        csv,
+        "text/csv;charset=utf-8",
+      );
+    } catch (e) {
+      setError(e.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap justify-between items-center gap-4">
+      <div>
+        <h3 className="text-sm font-medium text-white">Export Schedule</h3>
+        <div className="text-sm text-gray-400">
+          Circulating tokens per category as CSV, ready for Excel or Google
+          Sheets
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {GRANULARITIES.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant="ghost"
+            size="sm"
+            onClick={() => setGranularity(value)}
+            className={`border border-[#ffffff1a] ${
+              granularity === value
+                ? "bg-white text-[#14101b] hover:bg-white/90"
+                : "text-white"
+            }`}
+          >
+            {label}
+          </Button>
+        ))}
+        <label className="flex items-center gap-2 mx-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeUsd}
+            onChange={(e) => setIncludeUsd(e.target.checked)}
+            className="h-4 w-4 accent-white"
+          />
+          USD at ${tokenPrice}
+        </label>
+        <label className="flex items-center gap-2 mr-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={decimalComma}
+            onChange={(e) => setDecimalComma(e.target.checked)}
+            className="h-4 w-4 accent-white"
+          />
+          Decimal comma
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isExporting}
+          onClick={exportCsv}
+          className="border border-[#ffffff1a] text-white"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          {isExporting ? "Preparing…" : "Download CSV"}
+        </Button>
+      </div>
+      {error && <div className="w-full text-sm text-red-300">{error}</div>}
+    </div>
+  );
+};
+
+export default ScheduleExport;
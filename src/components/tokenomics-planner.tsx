@@ -1,6 +1,13 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  SetStateAction,
+} from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./ui/card";
 import {
   PieChart,
@@ -8,273 +15,928 @@ import {
   Cell,
   Tooltip,
   Legend,
-  AreaChart,
+  ComposedChart,
+  Line,
   Area,
   XAxis,
   YAxis,
   CartesianGrid,
+  ReferenceLine,
 } from "recharts";
+import type { TickItem } from "recharts/types/util/types";
 import { Slider } from "./ui/slider";
 import { Input } from "./ui/input";
 import { Alert, AlertTitle, AlertDescription } from "./ui/alert";
-import { Info, AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  Info,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  X,
+  Lock,
+  LockOpen,
+} from "lucide-react";
 import { Button } from "./ui/button";
 import {
   ChartConfig,
   ChartContainer,
   ChartTooltip,
 } from "./ui/chart";
+import {
+  COLORS,
+  DEFAULT_SCENARIO,
+  DEFAULT_VESTING,
+  DEFAULT_REBALANCE,
+  CliffRelease,
+  DistributionData,
+  DistributionField,
+  VestingCurve,
+  CategoryRole,
+  RebalanceStrategy,
+  VestingMilestone,
+  TokenomicsScenario,
+  applyDistributionChange,
+  categoryAllocations,
+  categoryTokens,
+  generateUnlockSchedule,
+  monthlyUnlocks,
+  defaultHorizonMonths,
+  resolveHorizonMonths,
+  totalAllocation,
+} from "../lib/tokenomics";
+import { createCalendar } from "../lib/calendar";
+import UnlockCalendar from "./unlock-calendar";
+import ScenarioManager from "./scenario-manager";
+import ScenarioCompare from "./scenario-compare";
+import ScheduleExport from "./schedule-export";
+import VestingExport from "./vesting-export";
+import ChartExport from "./chart-export";
+import HealthRules from "./health-rules";
+import BenchmarkPanel from "./benchmark-panel";
+import EditHistory from "./edit-history";
+import {
+  ScenarioStore,
+  createDefaultStore,
+  createSavedScenario,
+  isSameScenario,
+  loadScenarioStore,
+  saveScenarioStore,
+  storeActiveScenario,
+} from "../lib/scenario-store";
+import { EmissionModel, EmissionSchedule } from "../lib/emissions";
+import { OneOffBurn, hasBurns } from "../lib/burns";
+import { DEEP_PROFIT_MULTIPLE, summarizeRounds } from "../lib/fundraising";
+import { ScenarioRun, evaluateScenario, runScenarios } from "../lib/schedule-runner";
+import {
+  UNLOCK_SELL_SHARES,
+  createPool,
+  poolDepth,
+  sellImpact,
+  spotPrice,
+  tokensToMovePrice,
+} from "../lib/amm";
+import { SHARE_PARAM, buildShareUrl, decodeScenario } from "../lib/share-url";
+import {
+  createScenarioFile,
+  parseScenarioFile,
+  scenarioFileName,
+  serializeScenarioFile,
+} from "../lib/scenario-file";
+import { downloadFile, fileSlug } from "../lib/download";
+import { DEFAULT_DECIMALS, MAX_DECIMALS } from "../lib/token-units";
+import {
+  BENCHMARK_COLORS,
+  BENCHMARK_ROLES,
+  BenchmarkSector,
+  benchmarkScenario,
+  findBenchmark,
+} from "../lib/benchmarks";
+import {
+  TrackedScenario,
+  createHistory,
+  describeEdit,
+  recordEdit,
+  redoEdit,
+  trackedState,
+  undoEdit,
+} from "../lib/history";
+
+const VESTING_CURVES: { value: VestingCurve; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "exponential", label: "Decay" },
+  { value: "milestones", label: "Custom" },
+];
+
+const CATEGORY_ROLES: { value: CategoryRole; label: string }[] = [
+  { value: "team", label: "Team" },
+  { value: "investors", label: "Investors" },
+  { value: "public", label: "Public Sale" },
+  { value: "other", label: "Other" },
+];
+
+const REBALANCE_STRATEGIES: { value: RebalanceStrategy; label: string }[] = [
+  { value: "proportional", label: "Proportional" },
+  { value: "reserve", label: "From reserve" },
+  { value: "largest", label: "From largest" },
+  { value: "refuse", label: "Refuse" },
+];
 
-interface DistributionData {
-  percentage: number;
-  tge: number;
-  duration: number;
-}
-
-interface Distribution {
-  [key: string]: DistributionData;
-}
-
-const COLORS = [
-  "#FF6B6B",
-  "#4ECDC4",
-  "#45B7D1",
-  "#96CEB4",
-  "#FFEEAD",
-  "#D4A5A5",
-  "#9B59B6",
+const EMISSION_MODELS: { value: EmissionModel; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "fixed", label: "Fixed" },
+  { value: "decaying", label: "Decaying" },
+  { value: "halving", label: "Halving" },
 ];
 
-const chartConfig = {
-  publicSale: { label: "Public Sale", color: COLORS[0] },
-  privateRounds: { label: "Private Rounds", color: COLORS[1] },
-  teamAndAdvisors: { label: "Team And Advisors", color: COLORS[2] },
-  development: { label: "Development", color: COLORS[3] },
-  ecosystem: { label: "Ecosystem", color: COLORS[4] },
-  treasury: { label: "Treasury", color: COLORS[5] },
-  liquidityPool: { label: "Liquidity Pool", color: COLORS[6] },
-} satisfies ChartConfig;
+const EMISSIONS_COLOR = "#B8B8D1";
+const NET_SUPPLY_COLOR = "#FFFFFF";
+const NET_CIRCULATING_COLOR = "#FF9F43";
+
+// Candidate X axis tick spacings in months, smallest first
+const TICK_INTERVALS = [1, 3, 6, 12, 24, 60];
+const MAX_TICKS = 12;
+const MAX_CHART_POINTS = 120;
+
+// Delay before edits are written to localStorage when autosave is on
+const AUTOSAVE_DELAY_MS = 800;
+
+const formatDate = (date: Date | undefined, withDay = false) =>
+  date?.toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    ...(withDay && { day: "numeric" }),
+  });
+
+// Share (0-100) of the post-TGE amount a milestone curve schedules, in the
+// tenths the milestone inputs take
+const scheduledPercent = (milestones: VestingMilestone[]) =>
+  Number(milestones.reduce((sum, milestone) => sum + milestone.percent, 0).toFixed(1));
 
 const TokenomicsPlanner = () => {
-  const [totalSupply, setTotalSupply] = useState(1000000000);
-  const [initialTokenPrice, setInitialTokenPrice] = useState(0.001);
-  const [fdv, setFdv] = useState(0);
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
   const [isClient, setIsClient] = useState(false);
+  const [scenario, setScenario] = useState<TokenomicsScenario>(DEFAULT_SCENARIO);
+  const [store, setStore] = useState<ScenarioStore>(createDefaultStore);
+  // Autosave stays off until the stored scenarios have been read
+  const [isStoreLoaded, setIsStoreLoaded] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const distributionChartRef = useRef<HTMLDivElement>(null);
+  const unlockChartRef = useRef<HTMLDivElement>(null);
+  // Reference launches overlaid on the charts; not saved with the scenario
+  const [benchmarkSector, setBenchmarkSector] = useState<BenchmarkSector>();
+  const [benchmarkIds, setBenchmarkIds] = useState<string[]>([]);
+  // Undo/redo of supply, price and distribution edits to the open scenario
+  const [history, setHistory] = useState(createHistory);
+  // The tracked fields as last recorded, to diff the next edit against
+  const trackedRef = useRef<TrackedScenario>(trackedState(scenario));
+  // Numbers new category keys; never reused within a session, so adds
+  // batched into one render still get distinct keys
+  const categoryCountRef = useRef(0);
+  // The control behind the pending edit, so one gesture records one step;
+  // edits not tied to a control clear it and merge by label
+  const editedControlRef = useRef<string>();
+  // The last allocation change the rebalancing strategy refused
+  const [allocationOverflow, setAllocationOverflow] = useState<{
+    category: string;
+    percentage: number;
+    overflow: number;
+  } | null>(null);
+  // Problems opening a shared link or an imported file
+  const [openError, setOpenError] = useState<{
+    title: string;
+    messages: string[];
+  } | null>(null);
+  // The schedule and metrics behind the charts and tables, computed in the
+  // worker. They trail edits by a round trip, so they keep the scenario they
+  // were computed for; only the first render computes inline.
+  const [run, setRun] = useState<ScenarioRun & { scenario: TokenomicsScenario }>(
+    () => ({ scenario, ...evaluateScenario(scenario, "steps") }),
+  );
 
-  const [distribution, setDistribution] = useState<Distribution>({
-    publicSale: { percentage: 20, tge: 10, duration: 12 },
-    privateRounds: { percentage: 15, tge: 5, duration: 24 },
-    teamAndAdvisors: { percentage: 15, tge: 0, duration: 36 },
-    development: { percentage: 20, tge: 0, duration: 48 },
-    ecosystem: { percentage: 15, tge: 5, duration: 36 },
-    treasury: { percentage: 10, tge: 0, duration: 48 },
-    liquidityPool: { percentage: 5, tge: 20, duration: 24 },
-  });
+  const {
+    totalSupply,
+    decimals = DEFAULT_DECIMALS,
+    initialTokenPrice,
+    distribution,
+    // Undefined follows the longest vesting end across categories
+    horizonMonths,
+    // Undefined plans in relative 30-day months
+    tgeDate,
+    alignToMonthEnd,
+    emissions,
+    burns,
+    liquidity,
+    // Overrides of the built-in health rules
+    rules,
+    // Undefined rebalances proportionally
+    rebalance = DEFAULT_REBALANCE,
+  } = scenario;
+
+  const setScenarioField =
+    <K extends keyof TokenomicsScenario>(field: K) =>
+    (update: SetStateAction<TokenomicsScenario[K]>) =>
+      setScenario((prev) => ({
+        ...prev,
+        [field]:
+          typeof update === "function"
+            ? (update as (prevValue: TokenomicsScenario[K]) => TokenomicsScenario[K])(
+                prev[field],
+              )
+            : update,
+      }));
+
+  const setTotalSupply = setScenarioField("totalSupply");
+  const setDecimals = setScenarioField("decimals");
+  const setInitialTokenPrice = setScenarioField("initialTokenPrice");
+  const setDistribution = setScenarioField("distribution");
+  const setHorizonMonths = setScenarioField("horizonMonths");
+  const setTgeDate = setScenarioField("tgeDate");
+  const setAlignToMonthEnd = setScenarioField("alignToMonthEnd");
+  const setEmissions = setScenarioField("emissions");
+  const setBurns = setScenarioField("burns");
+  const setLiquidity = setScenarioField("liquidity");
+  const setRules = setScenarioField("rules");
+  const setRebalance = setScenarioField("rebalance");
+
+  const activeScenario = store.scenarios.find(
+    (saved) => saved.id === store.activeId,
+  );
+  const isDirty =
+    isStoreLoaded &&
+    !!activeScenario &&
+    !isSameScenario(scenario, activeScenario.scenario);
+
+  // Opening another scenario starts its history afresh rather than recording
+  // the switch as an edit
+  const loadScenario = useCallback((next: TokenomicsScenario) => {
+    trackedRef.current = trackedState(next);
+    setHistory(createHistory());
+    setAllocationOverflow(null);
+    setScenario(next);
+  }, []);
+
+  // Results arrive in request order, so the last one applied is always the
+  // latest scenario's
+  useEffect(() => {
+    runScenarios([scenario], "steps")
+      .then(([next]) => setRun({ scenario, ...next }))
+      .catch((e) =>
+        setOpenError({ title: "Could not compute the schedule", messages: [e.message] }),
+      );
+  }, [scenario]);
+
+  // Records supply, price and distribution changes; runs before the mount
+  // effect so the initial load is never taken for an edit
+  useEffect(() => {
+    const previous = trackedRef.current;
+    const current = { totalSupply, initialTokenPrice, distribution };
+    trackedRef.current = current;
+
+    const control = editedControlRef.current;
+    editedControlRef.current = undefined;
+
+    const label = describeEdit(previous, current);
+    if (label) {
+      setHistory((prev) => recordEdit(prev, label, previous, Date.now(), control));
+    }
+  }, [totalSupply, initialTokenPrice, distribution]);
 
   useEffect(() => {
     setIsClient(true);
-  }, []);
+
+    let loaded = loadScenarioStore();
+
+    // A shared link opens as a new saved scenario, leaving local ones intact
+    const url = new URL(window.location.href);
+    const shared = url.searchParams.get(SHARE_PARAM);
+    if (shared) {
+      const result = decodeScenario(shared);
+      if ("errors" in result) {
+        setOpenError({
+          title: "Could not open shared link",
+          messages: result.errors,
+        });
+      } else {
+        const opened = createSavedScenario("Shared link", result.scenario);
+        loaded = {
+          ...loaded,
+          activeId: opened.id,
+          scenarios: [...loaded.scenarios, opened],
+        };
+      }
+      url.searchParams.delete(SHARE_PARAM);
+      window.history.replaceState(null, "", url.toString());
+    }
+
+    const active = loaded.scenarios.find((saved) => saved.id === loaded.activeId);
+    setStore(loaded);
+    loadScenario(active.scenario);
+    setIsStoreLoaded(true);
+  }, [loadScenario]);
 
   useEffect(() => {
-    const newFdv = Math.max(0, totalSupply * initialTokenPrice);
-    setFdv(newFdv);
-  }, [totalSupply, initialTokenPrice]);
+    if (isStoreLoaded) {
+      saveScenarioStore(store);
+    }
+  }, [store, isStoreLoaded]);
 
-  const totalPercentage = Object.values(distribution).reduce(
-    (sum, data) => sum + data.percentage,
-    0,
-  );
+  useEffect(() => {
+    if (!isDirty || !store.autosave) return;
 
-  const generateUnlockSchedule = () => {
-    const days = 48 * 30; // Convert months to days
-    const schedule = Array.from({ length: days + 1 }, (_, day) => ({
-      day,
-      ...Object.fromEntries(
-        Object.keys(distribution).map((category) => [
-          category,
-          { circulating: 0 },
-        ]),
+    const timeout = setTimeout(
+      () => setStore((prev) => storeActiveScenario(prev, scenario)),
+      AUTOSAVE_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [scenario, isDirty, store.autosave]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  // The restored state is marked as recorded so it isn't taken for a new edit
+  const restoreTracked = (state: TrackedScenario) => {
+    trackedRef.current = state;
+    setScenario((prev) => ({ ...prev, ...state }));
+  };
+
+  const handleUndo = (steps: number) => {
+    let next = { history, state: trackedState(scenario) };
+    for (let step = 0; step < steps; step++) {
+      next = undoEdit(next.history, next.state) ?? next;
+    }
+    setHistory(next.history);
+    restoreTracked(next.state);
+  };
+
+  const handleRedo = (steps: number) => {
+    let next = { history, state: trackedState(scenario) };
+    for (let step = 0; step < steps; step++) {
+      next = redoEdit(next.history, next.state) ?? next;
+    }
+    setHistory(next.history);
+    restoreTracked(next.state);
+  };
+
+  // Text fields keep the browser's own undo; everything else gets ours
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        target.tagName === "TEXTAREA" ||
+        (target.tagName === "INPUT" && (target as HTMLInputElement).type === "text")
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey && history.past.length > 0) {
+        e.preventDefault();
+        handleUndo(1);
+      } else if (
+        ((key === "z" && e.shiftKey) || key === "y") &&
+        history.future.length > 0
+      ) {
+        e.preventDefault();
+        handleRedo(1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const saveActiveScenario = (current: TokenomicsScenario = scenario) => {
+    setStore((prev) => storeActiveScenario(prev, current));
+  };
+
+  // Autosave flushes pending edits; otherwise unsaved edits need confirming
+  const confirmLeaveScenario = () => {
+    if (!isDirty) return true;
+    if (store.autosave) {
+      saveActiveScenario();
+      return true;
+    }
+    return window.confirm(
+      `"${activeScenario?.name}" has unsaved changes. Discard them?`,
+    );
+  };
+
+  const openScenario = (id: string, scenarios?: ScenarioStore["scenarios"]) => {
+    const next = (scenarios ?? store.scenarios).find((saved) => saved.id === id);
+    if (!next) return;
+
+    setStore((prev) => ({
+      ...prev,
+      scenarios: scenarios ?? prev.scenarios,
+      activeId: id,
+    }));
+    loadScenario(JSON.parse(JSON.stringify(next.scenario)));
+    setExpandedCategory(null);
+  };
+
+  const handleSwitchScenario = (id: string) => {
+    if (id === store.activeId || !confirmLeaveScenario()) return;
+    openScenario(id);
+  };
+
+  const handleCreateScenario = () => {
+    if (!confirmLeaveScenario()) return;
+    const created = createSavedScenario(
+      `Scenario ${store.scenarios.length + 1}`,
+    );
+    setStore((prev) => ({
+      ...prev,
+      activeId: created.id,
+      scenarios: [...prev.scenarios, created],
+    }));
+    loadScenario(JSON.parse(JSON.stringify(created.scenario)));
+    setExpandedCategory(null);
+  };
+
+  const handleDuplicateScenario = () => {
+    // The copy takes the current edits; the original keeps its saved state
+    const duplicate = createSavedScenario(
+      `${activeScenario?.name ?? "Scenario"} copy`,
+      scenario,
+    );
+    setStore((prev) => ({
+      ...prev,
+      activeId: duplicate.id,
+      scenarios: [...prev.scenarios, duplicate],
+    }));
+  };
+
+  const handleRenameScenario = (name: string) => {
+    setStore((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((saved) =>
+        saved.id === prev.activeId ? { ...saved, name } : saved,
       ),
     }));
+  };
 
-    // Calculate unlocks for each category
-    Object.entries(distribution).forEach(([category, data]) => {
-      const tokenAmount = Math.floor((totalSupply * data.percentage) / 100);
-      const tgeAmount = Math.floor((tokenAmount * data.tge) / 100);
-      const remainingAmount = tokenAmount - tgeAmount;
-      const daysInVesting = data.duration * 30; // Convert months to days
-      const dailyUnlock = daysInVesting > 0 ? remainingAmount / daysInVesting : 0;
-
-      // Set TGE amount
-      schedule[0][category].circulating = tgeAmount;
-      
-      // Calculate daily unlocks with linear vesting
-      let categoryTotal = tgeAmount;
-      for (let day = 1; day <= days; day++) {
-        if (day <= daysInVesting) {
-          // Add daily unlock amount during vesting period
-          categoryTotal = tgeAmount + (remainingAmount * day / daysInVesting);
-        } else {
-          // After vesting period, all tokens are unlocked
-          categoryTotal = tokenAmount;
-        }
-        schedule[day][category].circulating = Math.min(categoryTotal, tokenAmount);
-      }
-    });
+  const handleShareScenario = async () => {
+    const url = buildShareUrl(
+      scenario,
+      `${window.location.origin}${window.location.pathname}`,
+    );
+    await navigator.clipboard.writeText(url);
+  };
 
-    // Calculate total circulating supply for each day
-    return schedule.map((point) => {
-      const totalCirculating = Object.entries(distribution).reduce((sum, [category]) => {
-        return sum + point[category].circulating;
-      }, 0);
-
-      return {
-        day: point.day,
-        circulating: Math.min(totalCirculating, totalSupply),
-        percentCirculating: Math.min((totalCirculating / totalSupply) * 100, 100),
-        ...Object.fromEntries(
-          Object.keys(distribution).map((category) => [
-            category,
-            {
-              circulating: point[category].circulating,
-              percentCirculating: (point[category].circulating / totalSupply) * 100,
-            },
-          ]),
-        ),
-      };
-    });
+  // The report opens in a new tab with the current edits, saved or not
+  const handleOpenReport = () => {
+    const url = new URL(
+      buildShareUrl(scenario, `${window.location.origin}/report`),
+    );
+    url.searchParams.set("name", activeScenario?.name ?? "Scenario");
+    window.open(url.toString(), "_blank");
   };
 
-  const calculateMetrics = () => {
-    const unlockSchedule = generateUnlockSchedule();
-    const tgeCirculating = unlockSchedule[0].circulating;
-    const tgeCirculatingPercent = (tgeCirculating / totalSupply) * 100;
-
-    return {
-      tgeCirculating,
-      tgeCirculatingPercent,
-      initialMarketCap: tgeCirculating * initialTokenPrice,
-      fdvToMcapRatio:
-        tgeCirculating > 0
-          ? fdv / (tgeCirculating * initialTokenPrice)
-          : Number.POSITIVE_INFINITY,
-      warnings: [
-        tgeCirculatingPercent > 25 &&
-          "High TGE unlock may cause price instability",
-        tgeCirculating > 0 &&
-          fdv / (tgeCirculating * initialTokenPrice) > 100 &&
-          "High FDV/MCap ratio indicates significant future dilution",
-        distribution.teamAndAdvisors.percentage > 20 &&
-          "Team allocation appears high",
-        distribution.liquidityPool.percentage < 5 &&
-          "Low liquidity allocation may cause price volatility",
-      ].filter(Boolean),
-    };
+  const handleExportScenario = () => {
+    const name = activeScenario?.name ?? "Scenario";
+    downloadFile(
+      scenarioFileName(name),
+      serializeScenarioFile(createScenarioFile(name, scenario)),
+      "application/json",
+    );
+  };
+
+  const handleImportScenario = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      setOpenError({ title: `Could not import ${file.name}`, messages: [e.message] });
+      return;
+    }
+    const result = parseScenarioFile(text);
+    if ("errors" in result) {
+      setOpenError({ title: `Could not import ${file.name}`, messages: result.errors });
+      return;
+    }
+    if (!confirmLeaveScenario()) return;
+
+    const imported = createSavedScenario(result.name, result.scenario);
+    setOpenError(null);
+    setStore((prev) => ({
+      ...prev,
+      activeId: imported.id,
+      scenarios: [...prev.scenarios, imported],
+    }));
+    loadScenario(JSON.parse(JSON.stringify(imported.scenario)));
+    setExpandedCategory(null);
   };
 
+  const handleDeleteScenario = () => {
+    if (!window.confirm(`Delete "${activeScenario?.name}"?`)) return;
+
+    const remaining = store.scenarios.filter(
+      (saved) => saved.id !== store.activeId,
+    );
+    if (remaining.length === 0) {
+      const fresh = createDefaultStore();
+      setStore((prev) => ({ ...fresh, autosave: prev.autosave }));
+      loadScenario(fresh.scenarios[0].scenario);
+      return;
+    }
+    openScenario(remaining[0].id, remaining);
+  };
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    Object.entries(distribution).map(([category, data]) => [
+      category,
+      { label: data.name, color: data.color },
+    ]),
+  );
+
+  const totalPercentage = totalAllocation(distribution);
+
   const handleDistributionChange = (
     category: string,
-    field: keyof DistributionData,
+    field: DistributionField,
     value: number,
   ) => {
-    const numValue = Math.max(0, Number(value));
-
+    const change = applyDistributionChange(
+      distribution,
+      category,
+      field,
+      value,
+      rebalance,
+    );
     if (field === "percentage") {
-      // Calculate the total percentage without the current category
-      const otherCategories = Object.entries(distribution).filter(
-        ([cat]) => cat !== category,
+      setAllocationOverflow(
+        change.overflow > 0
+          ? { category, percentage: value, overflow: change.overflow }
+          : null,
       );
+    }
+    if (change.overflow === 0) {
+      editedControlRef.current = `${category}.${field}`;
+      setDistribution(change.distribution);
+    }
+  };
 
-      const otherTotal = otherCategories.reduce(
-        (sum, [_, data]) => sum + data.percentage,
-        0,
-      );
+  const updateCategory = (
+    category: string,
+    changes: Partial<DistributionData>,
+  ) => {
+    editedControlRef.current = `${category}.${Object.keys(changes).join(",")}`;
+    setDistribution((prev) => ({
+      ...prev,
+      [category]: {
+        ...prev[category],
+        ...changes,
+      },
+    }));
+  };
 
-      // Calculate how much we need to adjust other categories
-      const currentValue = distribution[category].percentage;
-
-      if (otherTotal + numValue <= 100) {
-        // If we're not exceeding 100%, just update the current category
-        setDistribution((prev) => ({
-          ...prev,
-          [category]: {
-            ...prev[category],
-            percentage: Math.round(numValue * 10) / 10,
-          },
-        }));
-      } else {
-        // If we would exceed 100%, adjust other categories proportionally
-        const scale = (100 - numValue) / otherTotal;
-
-        let newDistribution = Object.entries(distribution).reduce(
-          (acc, [cat, data]) => {
-            if (cat === category) {
-              acc[cat] = {
-                ...data,
-                percentage: Math.round(numValue * 10) / 10,
-              };
-            } else {
-              // Round to 1 decimal place
-              let scaledPercentage =
-                Math.round(data.percentage * scale * 10) / 10;
-              acc[cat] = { ...data, percentage: scaledPercentage };
+  const handleTokenPriceChangeFor = (category: string, value: string) => {
+    updateCategory(category, {
+      tokenPrice: value === "" ? undefined : Math.max(0, Number(value)),
+    });
+  };
+
+  const handleCliffReleaseChange = (
+    category: string,
+    cliffRelease: CliffRelease,
+  ) => {
+    updateCategory(category, { cliffRelease });
+  };
+
+  const handleCurveChange = (category: string, curve: VestingCurve) => {
+    const milestones = distribution[category].milestones;
+    updateCategory(category, {
+      curve,
+      // Seed an editable milestone list the first time custom is picked
+      milestones:
+        curve === "milestones" && milestones.length === 0
+          ? [{ month: distribution[category].duration, percent: 100 }]
+          : milestones,
+    });
+  };
+
+  const handleMilestoneChange = (
+    category: string,
+    index: number,
+    field: keyof VestingMilestone,
+    value: number,
+  ) => {
+    const numValue = Math.max(0, Number(value));
+    updateCategory(category, {
+      milestones: distribution[category].milestones.map((milestone, i) =>
+        i === index
+          ? {
+              ...milestone,
+              [field]:
+                field === "percent"
+                  ? Math.min(100, Math.round(numValue * 10) / 10)
+                  : Math.round(numValue),
             }
-            return acc;
-          },
-          {} as Distribution,
-        );
+          : milestone,
+      ),
+    });
+  };
 
-        // Ensure total is exactly 100%
-        const newTotal = Object.values(newDistribution).reduce(
-          (sum, data) => sum + data.percentage,
-          0,
-        );
-        if (newTotal !== 100) {
-          // Adjust the largest allocation slightly to make total exactly 100%
-          const largestCategory = Object.entries(newDistribution)
-            .filter(([cat]) => cat !== category)
-            .reduce((max, curr) =>
-              curr[1].percentage > max[1].percentage ? curr : max,
-            );
-
-          if (largestCategory[0]) {
-            newDistribution[largestCategory[0]].percentage +=
-              Math.round((100 - newTotal) * 10) / 10;
-          }
-        }
-
-        setDistribution(newDistribution);
-      }
-    } else if (field === "tge") {
-      setDistribution((prev) => ({
-        ...prev,
-        [category]: {
-          ...prev[category],
-          [field]: Math.min(100, Math.max(0, Math.round(numValue * 10) / 10)),
-        },
-      }));
-    } else if (field === "duration") {
-      setDistribution((prev) => ({
-        ...prev,
-        [category]: {
-          ...prev[category],
-          [field]: Math.max(0, Math.round(numValue)),
-        },
-      }));
+  const handleAddMilestone = (category: string) => {
+    const milestones = distribution[category].milestones;
+    const lastMonth = milestones.length
+      ? milestones[milestones.length - 1].month
+      : 0;
+    updateCategory(category, {
+      milestones: [...milestones, { month: lastMonth + 1, percent: 0 }],
+    });
+  };
+
+  const handleRemoveMilestone = (category: string, index: number) => {
+    updateCategory(category, {
+      milestones: distribution[category].milestones.filter(
+        (_, i) => i !== index,
+      ),
+    });
+  };
+
+  const handleAddCategory = (changes: Partial<DistributionData> = {}) => {
+    const usedColors = Object.values(distribution).map((data) => data.color);
+    const color =
+      COLORS.find((c) => !usedColors.includes(c)) ??
+      COLORS[Object.keys(distribution).length % COLORS.length];
+    // Prefixed so the key never looks like an array index, which would
+    // change the object's iteration order
+    let category: string;
+    do {
+      categoryCountRef.current += 1;
+      category = `category${categoryCountRef.current}`;
+    } while (category in distribution);
+    editedControlRef.current = undefined;
+
+    setDistribution((prev) => ({
+      ...prev,
+      [category]: {
+        name: `Category ${Object.keys(prev).length + 1}`,
+        color,
+        percentage: 0,
+        tge: 0,
+        duration: 12,
+        ...DEFAULT_VESTING,
+        ...changes,
+      },
+    }));
+    setExpandedCategory(category);
+  };
+
+  const handleDeleteCategory = (category: string) => {
+    editedControlRef.current = undefined;
+    setDistribution((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([cat]) => cat !== category),
+      ),
+    );
+    if (expandedCategory === category) {
+      setExpandedCategory(null);
     }
   };
 
+  const handleMoveCategory = (category: string, offset: number) => {
+    editedControlRef.current = undefined;
+    setDistribution((prev) => {
+      const entries = Object.entries(prev);
+      const from = entries.findIndex(([cat]) => cat === category);
+      const to = from + offset;
+      if (to < 0 || to >= entries.length) return prev;
+
+      const [moved] = entries.splice(from, 1);
+      entries.splice(to, 0, moved);
+      return Object.fromEntries(entries);
+    });
+  };
+
   const handleTotalSupplyChange = (value: number) => {
+    editedControlRef.current = "totalSupply";
     setTotalSupply(Math.max(1, value));
   };
 
+  const handleDecimalsChange = (value: number) => {
+    setDecimals(Math.min(MAX_DECIMALS, Math.max(0, Math.round(value))));
+  };
+
   const handleTokenPriceChange = (value: number) => {
+    editedControlRef.current = "initialTokenPrice";
     setInitialTokenPrice(Math.max(0, value));
   };
 
-  const metrics = calculateMetrics();
-  const unlockSchedule = generateUnlockSchedule();
+  const handleEmissionsChange = (
+    field: Exclude<keyof EmissionSchedule, "model">,
+    value: string,
+  ) => {
+    setEmissions((prev) => ({
+      ...prev,
+      [field]:
+        field === "maxSupply" && value === ""
+          ? undefined
+          : Math.max(0, Number(value)),
+    }));
+  };
+
+  const handleBurnsChange = (
+    field: "monthlyAmount" | "monthlyCirculatingPercent",
+    value: number,
+  ) => {
+    const numValue = Math.max(0, Number(value));
+    setBurns((prev) => ({
+      ...prev,
+      [field]:
+        field === "monthlyCirculatingPercent" ? Math.min(100, numValue) : numValue,
+    }));
+  };
+
+  const handleOneOffBurnChange = (
+    index: number,
+    field: keyof OneOffBurn,
+    value: number,
+  ) => {
+    const numValue = Math.max(0, Number(value));
+    setBurns((prev) => ({
+      ...prev,
+      oneOff: prev.oneOff.map((burn, i) =>
+        i === index
+          ? { ...burn, [field]: field === "month" ? Math.round(numValue) : numValue }
+          : burn,
+      ),
+    }));
+  };
+
+  const handleAddOneOffBurn = () => {
+    setBurns((prev) => ({
+      ...prev,
+      oneOff: [...prev.oneOff, { month: 12, amount: 0 }],
+    }));
+  };
+
+  const handleRemoveOneOffBurn = (index: number) => {
+    setBurns((prev) => ({
+      ...prev,
+      oneOff: prev.oneOff.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleLiquidityChange = (
+    field: "pairedAmount" | "pairedPriceUsd",
+    value: number,
+  ) => {
+    setLiquidity((prev) => ({ ...prev, [field]: Math.max(0, Number(value)) }));
+  };
+
+  const handleHorizonChange = (value: string) => {
+    setHorizonMonths(
+      value === "" ? undefined : Math.max(1, Math.round(Number(value))),
+    );
+  };
+
+  const calendar = createCalendar(scenario);
+  const { unlockSchedule, metrics } = run;
+  const { fundraising, unlocks } = useMemo(
+    () => ({
+      fundraising: summarizeRounds(run.scenario, run.unlockSchedule),
+      unlocks: monthlyUnlocks(run.unlockSchedule),
+    }),
+    [run],
+  );
+
+  const allocationTokens = categoryTokens(scenario);
+  const lpData = distribution[liquidity.category];
+  const pool = createPool(allocationTokens[liquidity.category] ?? 0, liquidity);
+  const poolPrice = spotPrice(pool);
+  // Unlocks from every category except the pool's own tokens
+  const poolUnlocks = unlocks
+    .slice(1)
+    .map((unlock) => ({
+      month: unlock.month,
+      tokens: unlock.unlocked - (unlock.categories[liquidity.category] ?? 0),
+    }))
+    .filter((unlock) => unlock.tokens > 0);
+
+  const horizon = resolveHorizonMonths(scenario);
+  const horizonDays = calendar.monthToDay(horizon);
+  // Sample on monthly boundaries and the day before each, so step curves
+  // keep their shape
+  const sampleMonths = Math.ceil(horizon / MAX_CHART_POINTS);
+  const sampleDays = new Set(
+    Array.from({ length: Math.floor(horizon / sampleMonths) + 1 }, (_, i) =>
+      calendar.monthToDay(i * sampleMonths),
+    )
+      .concat(horizonDays)
+      .flatMap((day) => (day === 0 ? [day] : [day - 1, day])),
+  );
+  // Overlays only depend on these, not on allocation edits
+  const benchmarkBase = useMemo(
+    () => ({ totalSupply, initialTokenPrice, tgeDate, alignToMonthEnd }),
+    [totalSupply, initialTokenPrice, tgeDate, alignToMonthEnd],
+  );
+  const benchmarkOverlays = useMemo(
+    () =>
+      benchmarkIds.map((id, index) => {
+        const benchmark = findBenchmark(id);
+        const overlaySchedule = generateUnlockSchedule(
+          benchmarkScenario(benchmark, benchmarkBase, horizon),
+          "steps",
+        );
+        return {
+          ...benchmark,
+          color: BENCHMARK_COLORS[index],
+          percentByDay: new Map(
+            overlaySchedule.map((point) => [point.day, point.percentCirculating]),
+          ),
+        };
+      }),
+    [benchmarkIds, benchmarkBase, horizon],
+  );
+  const chartData = unlockSchedule
+    .filter((point) => sampleDays.has(point.day))
+    .map((point) => ({
+      ...point,
+      benchmarks: Object.fromEntries(
+        benchmarkOverlays.map((overlay) => [
+          overlay.id,
+          overlay.percentByDay.get(point.day),
+        ]),
+      ),
+    }));
+  const tickMonths =
+    TICK_INTERVALS.find((interval) => horizon / interval <= MAX_TICKS) ??
+    Math.ceil(horizon / MAX_TICKS);
+  const chartTicks = Array.from(
+    { length: Math.floor(horizon / tickMonths) + 1 },
+    (_, i) => calendar.monthToDay(i * tickMonths),
+  );
+  // The on-screen chart leans on the pie legend; exported images need their own
+  const unlockChartLegend = [
+    ...Object.values(distribution).map((data) => ({
+      label: data.name,
+      color: data.color,
+    })),
+    ...(emissions.model !== "none"
+      ? [{ label: "Emissions", color: EMISSIONS_COLOR }]
+      : []),
+    ...(hasBurns(burns)
+      ? [
+          { label: "Net Supply", color: NET_SUPPLY_COLOR },
+          { label: "Net Circulating", color: NET_CIRCULATING_COLOR },
+        ]
+      : []),
+    ...benchmarkOverlays.map((overlay) => ({
+      label: `${overlay.name} benchmark`,
+      color: overlay.color,
+    })),
+  ];
+
+  const MonthTick = ({
+    x,
+    y,
+    payload,
+  }: {
+    x: number;
+    y: number;
+    payload: TickItem;
+  }) => {
+    const day = payload.value;
+    const date = formatDate(calendar.dayToDate(day));
+    return (
+      <text x={x} y={y} textAnchor="middle" fill="#fff" fontSize={12}>
+        <tspan x={x} dy={14}>
+          {Math.round(calendar.dayToMonth(day))}
+        </tspan>
+        {date && (
+          <tspan x={x} dy={14} fill="rgba(255, 255, 255, 0.6)" fontSize={10}>
+            {date}
+          </tspan>
+        )}
+      </text>
+    );
+  };
+  const allocatedBaseUnits = Object.values(categoryAllocations(run.scenario)).reduce(
+    (sum, amount) => sum + amount,
+    BigInt(0),
+  );
+  const fullyUnlockedPoint = unlockSchedule.find(
+    (point) => point.genesisCirculatingBaseUnits >= allocatedBaseUnits,
+  );
+  const finalPoint = unlockSchedule[unlockSchedule.length - 1];
 
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -321,13 +983,79 @@ const TokenomicsPlanner = () => {
           </CardTitle>
         </CardHeader>
         <CardContent className="pt-6">
+          <div className="mb-6">
+            <ScenarioManager
+              store={store}
+              isDirty={isDirty}
+              onSwitch={handleSwitchScenario}
+              onCreate={handleCreateScenario}
+              onDuplicate={handleDuplicateScenario}
+              onRename={handleRenameScenario}
+              onDelete={handleDeleteScenario}
+              onSave={() => saveActiveScenario()}
+              onAutosaveChange={(autosave) =>
+                setStore((prev) => ({ ...prev, autosave }))
+              }
+              onCompare={() => setIsComparing(true)}
+              onShare={handleShareScenario}
+              onExport={handleExportScenario}
+              onImport={handleImportScenario}
+              onReport={handleOpenReport}
+            />
+            {isClient && (
+              <div className="mt-2">
+                <EditHistory
+                  history={history}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                />
+              </div>
+            )}
+          </div>
+          {openError && (
+            <Alert
+              variant="destructive"
+              className="mb-6 bg-red-900/50 border-red-700"
+            >
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle className="flex justify-between text-white">
+                {openError.title}
+                <button
+                  onClick={() => setOpenError(null)}
+                  className="text-gray-300 hover:text-white"
+                  title="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </AlertTitle>
+              <AlertDescription className="text-gray-200">
+                <ul className="list-disc pl-4 space-y-1">
+                  {openError.messages.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          {isClient && isComparing && (
+            <div className="mb-6">
+              <ScenarioCompare
+                // The active scenario is compared with its unsaved edits
+                scenarios={store.scenarios.map((saved) =>
+                  saved.id === store.activeId ? { ...saved, scenario } : saved,
+                )}
+                activeId={store.activeId}
+                onClose={() => setIsComparing(false)}
+              />
+            </div>
+          )}
           <div className="grid md:grid-cols-2 gap-8">
             {/* Left Column */}
             <div className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-white">
-                    Total Supply
+                    Initial Supply
                   </label>
                   <Input
                     type="number"
@@ -354,6 +1082,68 @@ const TokenomicsPlanner = () => {
                     className="bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400"
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">
+                    TGE Date
+                  </label>
+                  <Input
+                    type="date"
+                    value={tgeDate ?? ""}
+                    onChange={(e) => setTgeDate(e.target.value || undefined)}
+                    className="bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400 [color-scheme:dark]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">
+                    Unlock Day
+                  </label>
+                  <label className="flex h-10 items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={alignToMonthEnd}
+                      disabled={!tgeDate}
+                      onChange={(e) => setAlignToMonthEnd(e.target.checked)}
+                      className="h-4 w-4 accent-white"
+                    />
+                    Align unlocks to month end
+                  </label>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">
+                    Token Decimals
+                  </label>
+                  <Input
+                    type="number"
+                    value={decimals}
+                    onChange={(e) => handleDecimalsChange(Number(e.target.value))}
+                    min="0"
+                    max={MAX_DECIMALS}
+                    className="bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">
+                    Simulation Horizon (months)
+                  </label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      value={horizonMonths ?? ""}
+                      placeholder={`Auto (${defaultHorizonMonths(distribution)})`}
+                      onChange={(e) => handleHorizonChange(e.target.value)}
+                      min="1"
+                      className="bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400"
+                    />
+                    <Button
+                      variant="ghost"
+                      disabled={horizonMonths === undefined}
+                      onClick={() => setHorizonMonths(undefined)}
+                      className="h-10 border border-[#ffffff1a] text-gray-300 hover:text-white"
+                    >
+                      Auto
+                    </Button>
+                  </div>
+                </div>
               </div>
 
               <div className="grid grid-cols-2 gap-4 bg-[#2a2333] p-4 rounded-lg">
@@ -374,7 +1164,7 @@ const TokenomicsPlanner = () => {
                   </div>
                   <div className="text-lg font-medium text-white">
                     $
-                    {fdv.toLocaleString(undefined, {
+                    {metrics.fdv.toLocaleString(undefined, {
                       maximumFractionDigits: 0,
                     })}
                   </div>
@@ -417,10 +1207,67 @@ const TokenomicsPlanner = () => {
                     style={{ width: `${Math.min(totalPercentage, 100)}%` }}
                   />
                 </div>
+                <div className="mt-4 space-y-2">
+                  <div className="text-xs text-gray-300">
+                    When an increase takes the total over 100%
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {REBALANCE_STRATEGIES.map(({ value, label }) => (
+                      <Button
+                        key={value}
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setRebalance((prev) => ({ ...prev, strategy: value }));
+                          setAllocationOverflow(null);
+                        }}
+                        className={
+                          rebalance.strategy === value
+                            ? "bg-white text-[#14101b] hover:bg-white/90"
+                            : "text-white"
+                        }
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                    {rebalance.strategy === "reserve" && (
+                      <select
+                        value={rebalance.reserve ?? ""}
+                        onChange={(e) => {
+                          setRebalance((prev) => ({
+                            ...prev,
+                            reserve: e.target.value || undefined,
+                          }));
+                          setAllocationOverflow(null);
+                        }}
+                        className="h-9 rounded-md border border-[#ffffff1a] bg-[#14101b] px-2 text-sm text-white"
+                      >
+                        <option value="">Pick a reserve</option>
+                        {Object.entries(distribution).map(([category, data]) => (
+                          <option key={category} value={category}>
+                            {data.name}
+                            {data.locked ? " (locked)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {allocationOverflow && distribution[allocationOverflow.category] && (
+                    <div className="text-sm text-red-400">
+                      {distribution[allocationOverflow.category].name} can&apos;t go to{" "}
+                      {Math.min(allocationOverflow.percentage, 100).toFixed(1)}%: that
+                      is {allocationOverflow.overflow}% more than{" "}
+                      {rebalance.strategy === "refuse"
+                        ? "the remaining allocation"
+                        : "the strategy can free up from unlocked categories"}
+                      .
+                    </div>
+                  )}
+                </div>
               </div>
 
               <div className="space-y-4">
-                {Object.entries(distribution).map(([category, data]) => (
+                {Object.entries(distribution).map(([category, data], index) => (
                   <div
                     key={category}
                     className="space-y-2 border border-[#ffffff1a] rounded-lg p-4 bg-[#2a2333]"
@@ -434,30 +1281,91 @@ const TokenomicsPlanner = () => {
                       }
                     >
                       <div className="space-y-1">
-                        <div className="text-sm font-medium text-white">
-                          {category
-                            .replace(/([A-Z])/g, " $1")
-                            .replace(/^./, (str) => str.toUpperCase())}
+                        <div className="flex items-center gap-2 text-sm font-medium text-white">
+                          <span
+                            className="inline-block w-2 h-2 rounded-full"
+                            style={{ backgroundColor: data.color }}
+                          />
+                          {data.name}
                         </div>
                         <div className="text-sm text-gray-300">
                           {data.percentage.toFixed(1)}% (
-                          {Math.floor(
-                            (totalSupply * data.percentage) / 100,
-                          ).toLocaleString()}{" "}
+                          {allocationTokens[category].toLocaleString(undefined, {
+                            maximumFractionDigits: 0,
+                          })}{" "}
                           tokens)
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-gray-400 hover:text-white"
-                      >
-                        {expandedCategory === category ? (
-                          <ChevronUp className="h-4 w-4" />
-                        ) : (
-                          <ChevronDown className="h-4 w-4" />
-                        )}
-                      </Button>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateCategory(category, { locked: !data.locked || undefined });
+                          }}
+                          className={data.locked ? "text-white" : "text-gray-400 hover:text-white"}
+                          title={
+                            data.locked
+                              ? "Unlock allocation"
+                              : "Lock allocation so rebalancing leaves it alone"
+                          }
+                        >
+                          {data.locked ? (
+                            <Lock className="h-4 w-4" />
+                          ) : (
+                            <LockOpen className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveCategory(category, -1);
+                          }}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={
+                            index === Object.keys(distribution).length - 1
+                          }
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveCategory(category, 1);
+                          }}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteCategory(category);
+                          }}
+                          className="text-gray-400 hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-gray-400 hover:text-white"
+                        >
+                          {expandedCategory === category ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
                     </div>
 
                     <div className="flex items-center gap-4">
@@ -477,8 +1385,9 @@ const TokenomicsPlanner = () => {
                           }
                           max={100}
                           step={0.1}
+                          disabled={data.locked}
                           className={`
-                            ${totalPercentage > 100 ? "opacity-50" : ""} 
+                            ${totalPercentage > 100 || data.locked ? "opacity-50" : ""} 
                             [&_[role=slider]]:bg-white 
                             [&_[role=slider]]:border-white 
                             [&_[role=slider]]:hover:bg-white/90
@@ -501,6 +1410,7 @@ const TokenomicsPlanner = () => {
                               Number(e.target.value),
                             )
                           }
+                          disabled={data.locked}
                           className="bg-[#2a2333] border-[#ffffff1a] text-white text-right"
                           min="0"
                           max="100"
@@ -549,27 +1459,739 @@ const TokenomicsPlanner = () => {
                         />
                       </div>
                     </div>
+
+                    {expandedCategory === category && (
+                      <div className="grid grid-cols-2 gap-4 mt-4 pt-4 border-t border-[#ffffff1a]">
+                        <div>
+                          <label className="text-sm text-gray-300">
+                            Display Name
+                          </label>
+                          <Input
+                            type="text"
+                            value={data.name}
+                            onChange={(e) =>
+                              updateCategory(category, { name: e.target.value })
+                            }
+                            className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm text-gray-300">Color</label>
+                          <Input
+                            type="color"
+                            value={data.color}
+                            onChange={(e) =>
+                              updateCategory(category, { color: e.target.value })
+                            }
+                            className="mt-1 p-1 bg-[#2a2333] border-[#ffffff1a] cursor-pointer"
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <label className="text-sm text-gray-300">
+                            Round Token Price ($)
+                          </label>
+                          <Input
+                            type="number"
+                            value={data.tokenPrice ?? ""}
+                            placeholder="Not a funding round"
+                            onChange={(e) =>
+                              handleTokenPriceChangeFor(category, e.target.value)
+                            }
+                            className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400"
+                            min="0"
+                            step="0.000001"
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <label className="text-sm text-gray-300">
+                            Role (used by health rules)
+                          </label>
+                          <div className="mt-1 grid grid-cols-4 gap-2">
+                            {CATEGORY_ROLES.map(({ value, label }) => (
+                              <Button
+                                key={value}
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateCategory(category, { role: value })}
+                                className={`border border-[#ffffff1a] ${
+                                  (data.role ?? "other") === value
+                                    ? "bg-white text-[#14101b] hover:bg-white/90"
+                                    : "text-white"
+                                }`}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                        <div>
+                          <label className="text-sm text-gray-300">
+                            Cliff (months)
+                          </label>
+                          <Input
+                            type="number"
+                            value={data.cliff}
+                            onChange={(e) =>
+                              handleDistributionChange(
+                                category,
+                                "cliff",
+                                Number(e.target.value),
+                              )
+                            }
+                            className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                            min="0"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm text-gray-300">
+                            At Cliff End
+                          </label>
+                          <div className="mt-1 grid grid-cols-2 gap-2">
+                            {(["accrued", "linear"] as const).map((mode) => (
+                              <Button
+                                key={mode}
+                                variant="ghost"
+                                size="sm"
+                                disabled={data.cliff === 0}
+                                onClick={() =>
+                                  handleCliffReleaseChange(category, mode)
+                                }
+                                className={`h-10 border border-[#ffffff1a] ${
+                                  data.cliffRelease === mode
+                                    ? "bg-white text-[#14101b] hover:bg-white/90"
+                                    : "text-white"
+                                }`}
+                              >
+                                {mode === "accrued" ? "Release Accrued" : "Start Linear"}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="col-span-2">
+                          <label className="text-sm text-gray-300">
+                            Vesting Curve
+                          </label>
+                          <div className="mt-1 grid grid-cols-5 gap-2">
+                            {VESTING_CURVES.map(({ value, label }) => (
+                              <Button
+                                key={value}
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleCurveChange(category, value)}
+                                className={`border border-[#ffffff1a] ${
+                                  data.curve === value
+                                    ? "bg-white text-[#14101b] hover:bg-white/90"
+                                    : "text-white"
+                                }`}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                        {data.curve === "milestones" && (
+                          <div className="col-span-2 space-y-2">
+                            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-gray-300">
+                              <span>Month</span>
+                              <span>% Released</span>
+                              <span className="w-8" />
+                            </div>
+                            {data.milestones.map((milestone, index) => (
+                              <div
+                                key={index}
+                                className="grid grid-cols-[1fr_1fr_auto] gap-2"
+                              >
+                                <Input
+                                  type="number"
+                                  value={milestone.month}
+                                  onChange={(e) =>
+                                    handleMilestoneChange(
+                                      category,
+                                      index,
+                                      "month",
+                                      Number(e.target.value),
+                                    )
+                                  }
+                                  className="bg-[#2a2333] border-[#ffffff1a] text-white"
+                                  min="0"
+                                />
+                                <Input
+                                  type="number"
+                                  value={milestone.percent}
+                                  onChange={(e) =>
+                                    handleMilestoneChange(
+                                      category,
+                                      index,
+                                      "percent",
+                                      Number(e.target.value),
+                                    )
+                                  }
+                                  className="bg-[#2a2333] border-[#ffffff1a] text-white"
+                                  min="0"
+                                  max="100"
+                                  step="0.1"
+                                />
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() =>
+                                    handleRemoveMilestone(category, index)
+                                  }
+                                  className="h-9 w-8 text-gray-400 hover:text-white"
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ))}
+                            <div className="flex justify-between items-center">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleAddMilestone(category)}
+                                className="text-gray-300 hover:text-white"
+                              >
+                                <Plus className="h-4 w-4 mr-1" />
+                                Add Milestone
+                              </Button>
+                              <span className="text-xs text-gray-400">
+                                {scheduledPercent(data.milestones).toFixed(1)}
+                                % of vesting amount scheduled
+                              </span>
+                            </div>
+                            {scheduledPercent(data.milestones) < 100 && (
+                              <div className="text-xs text-yellow-300">
+                                The other{" "}
+                                {Number((100 - scheduledPercent(data.milestones)).toFixed(1))}%
+                                of the vesting amount is never released and stays
+                                locked forever.
+                              </div>
+                            )}
+                            {scheduledPercent(data.milestones) > 100 && (
+                              <div className="text-xs text-yellow-300">
+                                Milestones past 100% release nothing more.
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
+                <Button
+                  variant="ghost"
+                  onClick={() => handleAddCategory()}
+                  className="w-full border border-dashed border-[#ffffff1a] text-gray-300 hover:bg-[#2a2333] hover:text-white"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Category
+                </Button>
               </div>
 
-              {metrics.warnings.length > 0 && (
-                <div className="space-y-2">
-                  {metrics.warnings.map((warning, idx) => (
-                    <Alert
-                      key={idx}
-                      variant="destructive"
-                      className="bg-red-900/50 border-red-700"
+              <div className="space-y-4 border border-[#ffffff1a] rounded-lg p-4 bg-[#2a2333]">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium text-white">Emissions</div>
+                  <div className="text-xs text-gray-300">
+                    Tokens minted after TGE on top of the initial supply
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {EMISSION_MODELS.map(({ value, label }) => (
+                    <Button
+                      key={value}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setEmissions((prev) => ({ ...prev, model: value }))
+                      }
+                      className={`border border-[#ffffff1a] ${
+                        emissions.model === value
+                          ? "bg-white text-[#14101b] hover:bg-white/90"
+                          : "text-white"
+                      }`}
                     >
-                      <AlertTriangle className="h-4 w-4" />
-                      <AlertTitle className="text-white">Warning</AlertTitle>
-                      <AlertDescription className="text-gray-200">
-                        {warning}
-                      </AlertDescription>
-                    </Alert>
+                      {label}
+                    </Button>
                   ))}
                 </div>
-              )}
+                {emissions.model !== "none" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm text-gray-300">
+                        {emissions.model === "halving"
+                          ? "First Year Issuance (% of initial)"
+                          : "Annual Rate %"}
+                      </label>
+                      <Input
+                        type="number"
+                        value={emissions.annualRate}
+                        onChange={(e) =>
+                          handleEmissionsChange("annualRate", e.target.value)
+                        }
+                        className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                        min="0"
+                        step="0.1"
+                      />
+                    </div>
+                    {emissions.model === "decaying" && (
+                      <>
+                        <div>
+                          <label className="text-sm text-gray-300">
+                            Yearly Decay %
+                          </label>
+                          <Input
+                            type="number"
+                            value={emissions.decayRate}
+                            onChange={(e) =>
+                              handleEmissionsChange("decayRate", e.target.value)
+                            }
+                            className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                            min="0"
+                            max="100"
+                            step="0.1"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm text-gray-300">
+                            Minimum Rate %
+                          </label>
+                          <Input
+                            type="number"
+                            value={emissions.minRate}
+                            onChange={(e) =>
+                              handleEmissionsChange("minRate", e.target.value)
+                            }
+                            className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                            min="0"
+                            step="0.1"
+                          />
+                        </div>
+                      </>
+                    )}
+                    {emissions.model === "halving" && (
+                      <div>
+                        <label className="text-sm text-gray-300">
+                          Halving Interval (months)
+                        </label>
+                        <Input
+                          type="number"
+                          value={emissions.halvingMonths}
+                          onChange={(e) =>
+                            handleEmissionsChange("halvingMonths", e.target.value)
+                          }
+                          className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                          min="1"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-sm text-gray-300">Max Supply</label>
+                      <Input
+                        type="number"
+                        value={emissions.maxSupply ?? ""}
+                        placeholder="No cap"
+                        onChange={(e) =>
+                          handleEmissionsChange("maxSupply", e.target.value)
+                        }
+                        className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white placeholder-gray-400"
+                        min={totalSupply}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4 border border-[#ffffff1a] rounded-lg p-4 bg-[#2a2333]">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium text-white">Burns</div>
+                  <div className="text-xs text-gray-300">
+                    Tokens removed from circulating supply at the end of each
+                    month
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-300">
+                      Fixed Monthly Burn (tokens)
+                    </label>
+                    <Input
+                      type="number"
+                      value={burns.monthlyAmount}
+                      onChange={(e) =>
+                        handleBurnsChange("monthlyAmount", Number(e.target.value))
+                      }
+                      className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                      min="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-300">
+                      Monthly Burn (% of circulating)
+                    </label>
+                    <Input
+                      type="number"
+                      value={burns.monthlyCirculatingPercent}
+                      onChange={(e) =>
+                        handleBurnsChange(
+                          "monthlyCirculatingPercent",
+                          Number(e.target.value),
+                        )
+                      }
+                      className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                    />
+                  </div>
+                </div>
+                {burns.oneOff.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-gray-300">
+                      <span>Month</span>
+                      <span>One-off Burn (tokens)</span>
+                      <span className="w-8" />
+                    </div>
+                    {burns.oneOff.map((burn, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                        <Input
+                          type="number"
+                          value={burn.month}
+                          onChange={(e) =>
+                            handleOneOffBurnChange(
+                              index,
+                              "month",
+                              Number(e.target.value),
+                            )
+                          }
+                          className="bg-[#2a2333] border-[#ffffff1a] text-white"
+                          min="0"
+                        />
+                        <Input
+                          type="number"
+                          value={burn.amount}
+                          onChange={(e) =>
+                            handleOneOffBurnChange(
+                              index,
+                              "amount",
+                              Number(e.target.value),
+                            )
+                          }
+                          className="bg-[#2a2333] border-[#ffffff1a] text-white"
+                          min="0"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveOneOffBurn(index)}
+                          className="h-9 w-8 text-gray-400 hover:text-white"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleAddOneOffBurn}
+                  className="text-gray-300 hover:text-white"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add One-off Burn
+                </Button>
+              </div>
+
+              <div className="space-y-4 border border-[#ffffff1a] rounded-lg p-4 bg-[#2a2333]">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium text-white">
+                    Funding Rounds
+                  </div>
+                  <div className="text-xs text-gray-300">
+                    Categories with a round token price, valued at the initial
+                    token price
+                  </div>
+                </div>
+                {fundraising.rounds.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-gray-300">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-1 pr-2 font-medium">Round</th>
+                          <th className="py-1 pr-2 font-medium text-right">Price</th>
+                          <th className="py-1 pr-2 font-medium text-right">Raised</th>
+                          <th className="py-1 pr-2 font-medium text-right">Valuation</th>
+                          <th className="py-1 pr-2 font-medium text-right">ROI</th>
+                          <th className="py-1 font-medium text-right">
+                            Largest Unlock Profit
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fundraising.rounds.map((round) => {
+                          const largestUnlock = round.unlocks.reduce(
+                            (max, unlock) =>
+                              unlock.profit > max.profit ? unlock : max,
+                            round.unlocks[0],
+                          );
+                          return (
+                            <tr
+                              key={round.category}
+                              className="border-t border-[#ffffff1a]"
+                            >
+                              <td className="py-1 pr-2 text-white">{round.name}</td>
+                              <td className="py-1 pr-2 text-right">
+                                ${round.tokenPrice}
+                              </td>
+                              <td className="py-1 pr-2 text-right">
+                                $
+                                {round.raised.toLocaleString(undefined, {
+                                  maximumFractionDigits: 0,
+                                })}
+                              </td>
+                              <td className="py-1 pr-2 text-right">
+                                $
+                                {round.valuation.toLocaleString(undefined, {
+                                  maximumFractionDigits: 0,
+                                })}
+                              </td>
+                              <td
+                                className={`py-1 pr-2 text-right ${
+                                  round.roiMultiple >= DEEP_PROFIT_MULTIPLE
+                                    ? "text-red-400"
+                                    : "text-green-400"
+                                }`}
+                              >
+                                {round.roiMultiple.toFixed(1)}x
+                              </td>
+                              <td className="py-1 text-right">
+                                {largestUnlock
+                                  ? `$${largestUnlock.profit.toLocaleString(
+                                      undefined,
+                                      { maximumFractionDigits: 0 },
+                                    )} (M${largestUnlock.month})`
+                                  : "-"}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                        <tr className="border-t border-[#ffffff1a] text-white font-medium">
+                          <td className="py-1 pr-2">Total</td>
+                          <td />
+                          <td className="py-1 pr-2 text-right">
+                            $
+                            {fundraising.totalRaised.toLocaleString(undefined, {
+                              maximumFractionDigits: 0,
+                            })}
+                          </td>
+                          <td colSpan={3} />
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    handleAddCategory({
+                      name: `Round ${fundraising.rounds.length + 1}`,
+                      tokenPrice: initialTokenPrice / 2,
+                      cliff: 6,
+                      duration: 24,
+                    })
+                  }
+                  className="text-gray-300 hover:text-white"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Funding Round
+                </Button>
+              </div>
+
+              <div className="space-y-4 border border-[#ffffff1a] rounded-lg p-4 bg-[#2a2333]">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium text-white">
+                    Liquidity Pool
+                  </div>
+                  <div className="text-xs text-gray-300">
+                    Constant-product pool seeded with the category&apos;s full
+                    allocation, held at its launch reserves
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="col-span-2">
+                    <label className="text-sm text-gray-300">
+                      Pool Token Category
+                    </label>
+                    <select
+                      value={liquidity.category}
+                      onChange={(e) =>
+                        setLiquidity((prev) => ({
+                          ...prev,
+                          category: e.target.value,
+                        }))
+                      }
+                      className="mt-1 h-10 w-full rounded-md border border-[#ffffff1a] bg-[#2a2333] px-3 text-sm text-white"
+                    >
+                      {!lpData && <option value={liquidity.category}>None</option>}
+                      {Object.entries(distribution).map(([category, data]) => (
+                        <option key={category} value={category}>
+                          {data.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-300">
+                      Paired Amount
+                    </label>
+                    <div className="mt-1 flex gap-2">
+                      <Input
+                        type="number"
+                        value={liquidity.pairedAmount}
+                        onChange={(e) =>
+                          handleLiquidityChange(
+                            "pairedAmount",
+                            Number(e.target.value),
+                          )
+                        }
+                        className="bg-[#2a2333] border-[#ffffff1a] text-white"
+                        min="0"
+                      />
+                      <Input
+                        type="text"
+                        value={liquidity.pairedSymbol}
+                        onChange={(e) =>
+                          setLiquidity((prev) => ({
+                            ...prev,
+                            pairedSymbol: e.target.value,
+                          }))
+                        }
+                        className="w-20 bg-[#2a2333] border-[#ffffff1a] text-white"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-300">
+                      {liquidity.pairedSymbol || "Paired"} Price ($)
+                    </label>
+                    <Input
+                      type="number"
+                      value={liquidity.pairedPriceUsd}
+                      onChange={(e) =>
+                        handleLiquidityChange(
+                          "pairedPriceUsd",
+                          Number(e.target.value),
+                        )
+                      }
+                      className="mt-1 bg-[#2a2333] border-[#ffffff1a] text-white"
+                      min="0"
+                      step="0.01"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-400">Starting Price</div>
+                    <div className="text-white font-medium">
+                      $
+                      {poolPrice.toLocaleString(undefined, {
+                        maximumSignificantDigits: 4,
+                      })}
+                      {initialTokenPrice > 0 &&
+                        Math.abs(poolPrice / initialTokenPrice - 1) > 0.01 && (
+                          <span className="ml-2 text-xs text-yellow-400">
+                            {((poolPrice / initialTokenPrice - 1) * 100).toFixed(1)}%
+                            vs. initial price
+                          </span>
+                        )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Liquidity Depth</div>
+                    <div className="text-white font-medium">
+                      $
+                      {poolDepth(pool).toLocaleString(undefined, {
+                        maximumFractionDigits: 0,
+                      })}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Sell to Move Price -2%</div>
+                    <div className="text-white font-medium">
+                      {Math.round(tokensToMovePrice(pool, 2)).toLocaleString()}{" "}
+                      tokens
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Sell to Move Price -10%</div>
+                    <div className="text-white font-medium">
+                      {Math.round(tokensToMovePrice(pool, 10)).toLocaleString()}{" "}
+                      tokens
+                    </div>
+                  </div>
+                </div>
+                {pool.tokenReserve > 0 && poolUnlocks.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full text-xs text-gray-300">
+                      <thead className="sticky top-0 bg-[#2a2333]">
+                        <tr className="text-left text-gray-400">
+                          <th className="py-1 pr-2 font-medium">Month</th>
+                          <th className="py-1 pr-2 font-medium text-right">
+                            Unlocked
+                          </th>
+                          {UNLOCK_SELL_SHARES.map((share) => (
+                            <th
+                              key={share}
+                              className="py-1 pr-2 font-medium text-right"
+                            >
+                              Sell {share * 100}%
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {poolUnlocks.map((unlock) => (
+                          <tr
+                            key={unlock.month}
+                            className="border-t border-[#ffffff1a]"
+                          >
+                            <td className="py-1 pr-2">{unlock.month}</td>
+                            <td className="py-1 pr-2 text-right">
+                              {Math.round(unlock.tokens).toLocaleString()}
+                            </td>
+                            {UNLOCK_SELL_SHARES.map((share) => {
+                              const impact = sellImpact(
+                                pool,
+                                unlock.tokens * share,
+                              ).priceImpact;
+                              return (
+                                <td
+                                  key={share}
+                                  className={`py-1 pr-2 text-right ${
+                                    impact > 10
+                                      ? "text-red-400"
+                                      : impact > 2
+                                        ? "text-yellow-400"
+                                        : ""
+                                  }`}
+                                >
+                                  -{impact.toFixed(2)}%
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <HealthRules
+                findings={metrics.findings}
+                settings={rules ?? {}}
+                onChange={setRules}
+              />
             </div>
 
             {/* Right Column - Charts */}
@@ -578,20 +2200,22 @@ const TokenomicsPlanner = () => {
                 <>
                   <ChartContainer config={chartConfig}>
                     <div>
-                      <h3 className="text-sm font-medium mb-4 text-white">
-                        Token Distribution
-                      </h3>
-                      <div className="flex flex-col items-center">
+                      <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-sm font-medium text-white">
+                          Token Distribution
+                        </h3>
+                        <ChartExport
+                          chartRef={distributionChartRef}
+                          fileName={`${fileSlug(activeScenario?.name ?? "scenario")}-distribution`}
+                        />
+                      </div>
+                      <div ref={distributionChartRef} className="flex flex-col items-center">
                         <PieChart width={500} height={350}>
                           <Pie
-                            data={Object.entries(distribution).map(
-                              ([name, data]) => ({
-                                name: chartConfig[
-                                  name as keyof typeof chartConfig
-                                ].label,
-                                value: data.percentage,
-                              }),
-                            )}
+                            data={Object.values(distribution).map((data) => ({
+                              name: data.name,
+                              value: data.percentage,
+                            }))}
                             cx={220}
                             cy={175}
                             innerRadius={80}
@@ -601,14 +2225,42 @@ const TokenomicsPlanner = () => {
                             label={false}
                             labelLine={false}
                           >
-                            {Object.entries(distribution).map((_, index) => (
+                            {Object.entries(distribution).map(([category, data]) => (
                               <Cell
-                                key={`cell-${index}`}
-                                fill={COLORS[index % COLORS.length]}
+                                key={`cell-${category}`}
+                                fill={data.color}
                                 className="opacity-90 hover:opacity-100 transition-opacity"
                               />
                             ))}
                           </Pie>
+                          {/* Benchmarks as rings inside the donut, outermost first */}
+                          {benchmarkOverlays.map((overlay, index) => (
+                            <Pie
+                              key={`benchmark-${overlay.id}`}
+                              data={BENCHMARK_ROLES.map(({ value, label }) => ({
+                                name: `${overlay.name} · ${label}`,
+                                value: overlay.allocations[value].percentage,
+                              }))}
+                              cx={220}
+                              cy={175}
+                              innerRadius={64 - index * 14}
+                              outerRadius={74 - index * 14}
+                              paddingAngle={2}
+                              dataKey="value"
+                              legendType="none"
+                              stroke={overlay.color}
+                              label={false}
+                              labelLine={false}
+                            >
+                              {BENCHMARK_ROLES.map(({ value, color }) => (
+                                <Cell
+                                  key={`benchmark-${overlay.id}-${value}`}
+                                  fill={color}
+                                  fillOpacity={0.6}
+                                />
+                              ))}
+                            </Pie>
+                          ))}
                           <Tooltip content={CustomTooltip} />
                           <Legend
                             layout="vertical"
@@ -628,28 +2280,39 @@ const TokenomicsPlanner = () => {
                     </div>
 
                     <div>
-                      <h3 className="text-sm font-medium mb-4 text-white">
-                        Token Unlock Schedule
-                      </h3>
+                      <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-sm font-medium text-white">
+                          Token Unlock Schedule
+                        </h3>
+                        <ChartExport
+                          chartRef={unlockChartRef}
+                          fileName={`${fileSlug(activeScenario?.name ?? "scenario")}-unlock-schedule`}
+                          legend={unlockChartLegend}
+                        />
+                      </div>
                       <div className="text-sm text-gray-400 mb-4">
-                        Shows cumulative circulating supply percentage over time
+                        Shows cumulative circulating supply as a percentage of
+                        total supply over time
                       </div>
-                      <div className="flex flex-col items-center">
-                        <AreaChart
+                      <div ref={unlockChartRef} className="flex flex-col items-center">
+                        <ComposedChart
                           width={500}
                           height={350}
-                          data={unlockSchedule.filter((_, index) => index % 30 === 0)} // Sample every 30 days
-                          margin={{ top: 20, right: 30, left: 60, bottom: 60 }}
+                          data={chartData}
+                          margin={{ top: 20, right: 30, left: 60, bottom: tgeDate ? 75 : 60 }}
                         >
                           <CartesianGrid strokeDasharray="3 3" stroke="#ffffff1a" />
                           <XAxis 
                             dataKey="day" 
+                            type="number"
+                            domain={[0, horizonDays]}
+                            ticks={chartTicks}
                             stroke="#fff"
-                            tickFormatter={(value) => (value / 30).toFixed(0)}
+                            tick={MonthTick}
                             label={{ 
                               value: 'Months After TGE', 
                               position: 'insideBottom', 
-                              offset: -35,
+                              offset: tgeDate ? -50 : -35,
                               fill: '#fff'
                             }}
                           />
@@ -680,39 +2343,91 @@ const TokenomicsPlanner = () => {
                                       fontWeight: 500,
                                     }}
                                   >
-                                    <div>Month {(payload[0].payload.day / 30).toFixed(0)}</div>
-                                    {payload.map((entry: any, index: number) => {
-                                      const formattedName = entry.dataKey.replace(/([A-Z])/g, ' $1').trim();
-                                      const name = formattedName.charAt(0).toUpperCase() + formattedName.slice(1).replace('.percent Circulating', '');
-                                      return (
-                                        <div key={index} style={{ color: entry.color }}>
-                                          {name}: {entry.value.toFixed(1)}%
-                                        </div>
-                                      );
-                                    })}
+                                    <div>
+                                      Month {Math.round(payload[0].payload.month)}
+                                      {payload[0].payload.date &&
+                                        ` · ${formatDate(
+                                          calendar.dayToDate(payload[0].payload.day),
+                                          true,
+                                        )}`}
+                                    </div>
+                                    {payload.map((entry: any, index: number) => (
+                                      <div key={index} style={{ color: entry.color }}>
+                                        {entry.name}: {entry.value.toFixed(1)}%
+                                      </div>
+                                    ))}
                                   </div>
                                 );
                               }
                               return null;
                             }}
                           />
-                          {Object.entries(distribution).map(([category], index) => {
-                            const formattedName = category.replace(/([A-Z])/g, ' $1').trim();
-                            const name = formattedName.charAt(0).toUpperCase() + formattedName.slice(1).replace('.percent Circulating', '');
-                            return (
-                              <Area
-                                key={category}
-                                type="monotone"
-                                dataKey={`${category}.percentCirculating`}
-                                name={name}
-                                stackId="1"
-                                stroke={COLORS[index % COLORS.length]}
-                                fill={COLORS[index % COLORS.length]}
-                                fillOpacity={0.8}
+                          {Object.entries(distribution)
+                            .filter(([, data]) => data.cliff > 0 && data.cliff <= horizon)
+                            .map(([category, data]) => (
+                              <ReferenceLine
+                                key={`cliff-${category}`}
+                                x={calendar.monthToDay(data.cliff)}
+                                stroke="rgba(255, 255, 255, 0.4)"
+                                strokeDasharray="4 4"
+                              />
+                            ))}
+                          {Object.entries(distribution).map(([category, data]) => (
+                            <Area
+                              key={category}
+                              type="linear"
+                              dataKey={`categories.${category}.percentCirculating`}
+                              name={data.name}
+                              stackId="1"
+                              stroke={data.color}
+                              fill={data.color}
+                              fillOpacity={0.8}
+                            />
+                          ))}
+                          {emissions.model !== "none" && (
+                            <Area
+                              type="linear"
+                              dataKey="percentEmitted"
+                              name="Emissions"
+                              stackId="1"
+                              stroke={EMISSIONS_COLOR}
+                              fill={EMISSIONS_COLOR}
+                              fillOpacity={0.8}
+                            />
+                          )}
+                          {hasBurns(burns) && (
+                            <>
+                              <Line
+                                type="linear"
+                                dataKey="percentNetSupply"
+                                name="Net Supply"
+                                stroke={NET_SUPPLY_COLOR}
+                                strokeDasharray="6 3"
+                                dot={false}
+                              />
+                              <Line
+                                type="linear"
+                                dataKey="percentNetCirculating"
+                                name="Net Circulating"
+                                stroke={NET_CIRCULATING_COLOR}
+                                strokeWidth={2}
+                                dot={false}
                               />
-                            );
-                          })}
-                        </AreaChart>
+                            </>
+                          )}
+                          {benchmarkOverlays.map((overlay) => (
+                            <Line
+                              key={`benchmark-${overlay.id}`}
+                              type="linear"
+                              dataKey={`benchmarks.${overlay.id}`}
+                              name={`${overlay.name} benchmark`}
+                              stroke={overlay.color}
+                              strokeDasharray="2 3"
+                              strokeWidth={2}
+                              dot={false}
+                            />
+                          ))}
+                        </ComposedChart>
 
                         <div className="text-xs text-gray-400 mt-6 w-full px-4">
                           <div className="font-medium mb-2">Key Points:</div>
@@ -730,9 +2445,55 @@ const TokenomicsPlanner = () => {
                                 },
                               )}
                             </li>
+                            {Object.entries(distribution)
+                              .filter(([, data]) => data.cliff > 0)
+                              .map(([category, data]) => (
+                                <li key={`cliff-${category}`}>
+                                  {data.name}{" "}
+                                  Cliff: {data.cliff} months,{" "}
+                                  {data.cliffRelease === "accrued"
+                                    ? "accrued tokens released at once"
+                                    : "linear vesting starts"}
+                                </li>
+                              ))}
+                            <li>
+                              Fully Unlocked:{" "}
+                              {fullyUnlockedPoint
+                                ? `Month ${Math.ceil(fullyUnlockedPoint.month)}`
+                                : `After month ${horizon}`}
+                            </li>
+                            <li>
+                              Circulating at Month {horizon}:{" "}
+                              {finalPoint.percentCirculating.toFixed(1)}%
+                            </li>
+                            {emissions.model !== "none" && (
+                              <li>
+                                Total Supply at Month {horizon}:{" "}
+                                {Math.round(
+                                  finalPoint.totalSupply,
+                                ).toLocaleString()}{" "}
+                                (+
+                                {(
+                                  (finalPoint.emitted / totalSupply) *
+                                  100
+                                ).toFixed(1)}
+                                % emitted)
+                              </li>
+                            )}
+                            {hasBurns(burns) && (
+                              <li>
+                                Burned by Month {horizon}:{" "}
+                                {Math.round(metrics.totalBurned).toLocaleString()}{" "}
+                                tokens (net supply{" "}
+                                {Math.round(
+                                  metrics.finalTotalSupply,
+                                ).toLocaleString()}
+                                )
+                              </li>
+                            )}
                             <li>
                               Final FDV: $
-                              {fdv.toLocaleString(undefined, {
+                              {metrics.finalFdv.toLocaleString(undefined, {
                                 maximumFractionDigits: 0,
                               })}
                             </li>
@@ -741,10 +2502,36 @@ const TokenomicsPlanner = () => {
                       </div>
                     </div>
                   </ChartContainer>
+
+                  <BenchmarkPanel
+                    distribution={distribution}
+                    sector={benchmarkSector}
+                    onSectorChange={setBenchmarkSector}
+                    selectedIds={benchmarkIds}
+                    onSelectedIdsChange={setBenchmarkIds}
+                  />
                 </>
               )}
             </div>
           </div>
+
+          <div className="mt-8 pt-6 border-t border-[#ffffff1a] space-y-6">
+            <ScheduleExport
+              scenario={scenario}
+              tokenPrice={initialTokenPrice}
+              scenarioName={activeScenario?.name ?? "Scenario"}
+            />
+            <VestingExport
+              scenario={scenario}
+              scenarioName={activeScenario?.name ?? "Scenario"}
+            />
+            <UnlockCalendar
+              unlocks={unlocks}
+              distribution={distribution}
+              tokenPrice={initialTokenPrice}
+              showEmissions={emissions.model !== "none"}
+            />
+          </div>
         </CardContent>
       </Card>
     </div>
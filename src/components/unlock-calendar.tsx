@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useState } from "react";
+import { Distribution, MonthlyUnlock } from "../lib/tokenomics";
+import { formatDate, formatTokens } from "../lib/format";
+
+// Unlocks at or above this % of the previous month's circulating supply are
+// highlighted
+const LARGE_UNLOCK_PERCENT = 10;
+
+interface UnlockCalendarProps {
+  unlocks: MonthlyUnlock[];
+  distribution: Distribution;
+  tokenPrice: number;
+  showEmissions: boolean;
+}
+
+const UnlockCalendar = ({
+  unlocks,
+  distribution,
+  tokenPrice,
+  showEmissions,
+}: UnlockCalendarProps) => {
+  const [unlockEventsOnly, setUnlockEventsOnly] = useState(false);
+
+  const categories = Object.entries(distribution);
+  const cliffEnds = (month: number) =>
+    categories
+      .filter(([, data]) => data.cliff > 0 && data.cliff === month)
+      .map(([, data]) => data.name);
+
+  const rows = unlocks.filter(
+    (unlock) => !unlockEventsOnly || Math.round(unlock.unlocked) > 0,
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-medium text-white">Unlock Calendar</h3>
+          <div className="text-sm text-gray-400">
+            Tokens unlocked each month, valued at the initial token price
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={unlockEventsOnly}
+            onChange={(e) => setUnlockEventsOnly(e.target.checked)}
+            className="h-4 w-4 accent-white"
+          />
+          Unlock events only
+        </label>
+      </div>
+      <div className="max-h-[32rem] overflow-auto border border-[#ffffff1a] rounded-lg">
+        <table className="w-full text-xs text-gray-300 whitespace-nowrap">
+          <thead className="sticky top-0 bg-[#2a2333]">
+            <tr className="text-left text-gray-400">
+              <th className="px-3 py-2 font-medium">Month</th>
+              {categories.map(([category, data]) => (
+                <th key={category} className="px-3 py-2 font-medium text-right">
+                  <span
+                    className="inline-block w-2 h-2 mr-1 rounded-full"
+                    style={{ backgroundColor: data.color }}
+                  />
+                  {data.name}
+                </th>
+              ))}
+              {showEmissions && (
+                <th className="px-3 py-2 font-medium text-right">Emissions</th>
+              )}
+              <th className="px-3 py-2 font-medium text-right">Total Unlocked</th>
+              <th className="px-3 py-2 font-medium text-right">Circulating %</th>
+              <th className="px-3 py-2 font-medium text-right">USD Value</th>
+              <th className="px-3 py-2 font-medium text-right">
+                % of Prev. Circulating
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((unlock) => {
+              const cliffs = cliffEnds(unlock.month);
+              const percentOfPrevious =
+                unlock.previousCirculating > 0
+                  ? (unlock.unlocked / unlock.previousCirculating) * 100
+                  : undefined;
+              const isLarge =
+                cliffs.length > 0 ||
+                (percentOfPrevious !== undefined &&
+                  percentOfPrevious >= LARGE_UNLOCK_PERCENT);
+
+              return (
+                <tr
+                  key={unlock.month}
+                  className={`border-t border-[#ffffff1a] ${
+                    isLarge ? "bg-red-900/30 text-white" : ""
+                  }`}
+                >
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-white">
+                      {unlock.month === 0 ? "TGE" : `Month ${unlock.month}`}
+                    </div>
+                    {unlock.date && (
+                      <div className="text-gray-400">{formatDate(unlock.date)}</div>
+                    )}
+                    {cliffs.length > 0 && (
+                      <div className="text-red-300">
+                        Cliff ends: {cliffs.join(", ")}
+                      </div>
+                    )}
+                  </td>
+                  {categories.map(([category]) => (
+                    <td key={category} className="px-3 py-2 text-right">
+                      {unlock.categories[category] > 0
+                        ? formatTokens(unlock.categories[category])
+                        : "-"}
+                    </td>
+                  ))}
+                  {showEmissions && (
+                    <td className="px-3 py-2 text-right">
+                      {unlock.emitted > 0 ? formatTokens(unlock.emitted) : "-"}
+                    </td>
+                  )}
+                  <td className="px-3 py-2 text-right font-medium text-white">
+                    {formatTokens(unlock.unlocked)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {unlock.percentCirculating.toFixed(2)}%
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    $
+                    {(unlock.unlocked * tokenPrice).toLocaleString(undefined, {
+                      maximumFractionDigits: 0,
+                    })}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {percentOfPrevious !== undefined
+                      ? `${percentOfPrevious.toFixed(2)}%`
+                      : "-"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockCalendar;
@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useState } from "react";
+import { Copy, Download } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { TokenomicsScenario } from "../lib/tokenomics";
+import {
+  VestingExportTarget,
+  ZERO_ADDRESS,
+  generateVestingParams,
+  reconcileVestingParams,
+  toOpenZeppelinWallets,
+} from "../lib/vesting-contracts";
+import { downloadFile, fileSlug } from "../lib/download";
+
+const TARGETS: { value: VestingExportTarget; label: string }[] = [
+  { value: "generic", label: "Generic JSON" },
+  { value: "openzeppelin", label: "OpenZeppelin VestingWallet" },
+];
+
+interface VestingExportProps {
+  scenario: TokenomicsScenario;
+  scenarioName: string;
+}
+
+const buildOutput = (
+  scenario: TokenomicsScenario,
+  target: VestingExportTarget,
+  beneficiaries: Record<string, string>,
+) => {
+  const params = generateVestingParams(scenario, { beneficiaries });
+  const reconciliation = reconcileVestingParams(params);
+
+  if (target === "openzeppelin") {
+    const { wallets, warnings } = toOpenZeppelinWallets(params);
+    return {
+      json: { token: params.token, reconciliation, wallets },
+      warnings: [...params.warnings, ...warnings],
+    };
+  }
+  return {
+    json: { token: params.token, reconciliation, categories: params.categories },
+    warnings: params.warnings,
+  };
+};
+
+const VestingExport = ({ scenario, scenarioName }: VestingExportProps) => {
+  const [target, setTarget] = useState<VestingExportTarget>("generic");
+  const [beneficiaries, setBeneficiaries] = useState<Record<string, string>>({});
+
+  let output: ReturnType<typeof buildOutput> | undefined;
+  let error: string | undefined;
+  try {
+    output = buildOutput(scenario, target, beneficiaries);
+  } catch (e) {
+    error = e.message;
+  }
+  const text = output ? `${JSON.stringify(output.json, null, 2)}\n` : "";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-white">Vesting Contracts</h3>
+          <div className="text-sm text-gray-400">
+            Deployment parameters per category, in base units that sum exactly
+            to the initial supply
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {TARGETS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant="ghost"
+              size="sm"
+              onClick={() => setTarget(value)}
+              className={`border border-[#ffffff1a] ${
+                target === value
+                  ? "bg-white text-[#14101b] hover:bg-white/90"
+                  : "text-white"
+              }`}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          {Object.entries(scenario.distribution).map(([category, data]) => (
+            <div key={category} className="flex items-center gap-2">
+              <label className="w-40 text-sm text-gray-300 truncate">
+                <span
+                  className="inline-block w-2 h-2 mr-2 rounded-full"
+                  style={{ backgroundColor: data.color }}
+                />
+                {data.name}
+              </label>
+              <Input
+                value={beneficiaries[category] ?? ""}
+                placeholder={ZERO_ADDRESS}
+                onChange={(e) =>
+                  setBeneficiaries((prev) => ({
+                    ...prev,
+                    [category]: e.target.value,
+                  }))
+                }
+                className="flex-1 font-mono text-xs bg-[#14101b] border-[#ffffff1a] text-white"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {error ? (
+            <div className="text-sm text-red-300">{error}</div>
+          ) : (
+            <>
+              <pre className="max-h-80 overflow-auto p-3 rounded-lg bg-[#14101b] border border-[#ffffff1a] text-xs text-gray-300">
+                {text}
+              </pre>
+              {output.warnings.length > 0 && (
+                <ul className="list-disc pl-4 text-xs text-yellow-300 space-y-1">
+                  {output.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigator.clipboard.writeText(text)}
+                  className="border border-[#ffffff1a] text-white"
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    downloadFile(
+                      `${fileSlug(scenarioName)}-vesting-${target}.json`,
+                      text,
+                      "application/json",
+                    )
+                  }
+                  className="border border-[#ffffff1a] text-white"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download JSON
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VestingExport;
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LIQUIDITY,
+  createPool,
+  poolDepth,
+  sellImpact,
+  spotPrice,
+  tokensToMovePrice,
+} from "./amm";
+
+// 1M tokens against 50,000 USDC, a spot price of $0.05
+const pool = createPool(1_000_000, DEFAULT_LIQUIDITY);
+
+describe("createPool", () => {
+  it("values the paired side in USD", () => {
+    const ethPool = createPool(1_000, {
+      ...DEFAULT_LIQUIDITY,
+      pairedAmount: 10,
+      pairedPriceUsd: 3_000,
+    });
+    expect(ethPool).toEqual({ tokenReserve: 1_000, quoteReserve: 30_000 });
+    expect(spotPrice(ethPool)).toBe(30);
+    expect(poolDepth(ethPool)).toBe(60_000);
+  });
+
+  it("has no price without tokens", () => {
+    expect(spotPrice(createPool(0, DEFAULT_LIQUIDITY))).toBe(0);
+  });
+});
+
+describe("sellImpact", () => {
+  it("keeps the reserve product constant", () => {
+    const { quoteOut, executionPrice, priceImpact } = sellImpact(pool, 1_000_000);
+    // Doubling the token reserve halves the quote reserve and quarters the price
+    expect(quoteOut).toBe(25_000);
+    expect(executionPrice).toBe(0.025);
+    expect(priceImpact).toBe(75);
+  });
+
+  it("fills small sells close to the spot price", () => {
+    const { executionPrice, priceImpact } = sellImpact(pool, 100);
+    expect(executionPrice).toBeCloseTo(0.05, 5);
+    expect(executionPrice).toBeLessThan(spotPrice(pool));
+    expect(priceImpact).toBeCloseTo(0.02, 3);
+  });
+
+  it("has no impact for empty sells or empty pools", () => {
+    expect(sellImpact(pool, 0)).toEqual({
+      tokensIn: 0,
+      quoteOut: 0,
+      executionPrice: 0.05,
+      priceImpact: 0,
+    });
+    expect(sellImpact(createPool(0, DEFAULT_LIQUIDITY), 100).priceImpact).toBe(0);
+  });
+});
+
+describe("tokensToMovePrice", () => {
+  it("is the sell size with the given price impact", () => {
+    for (const percent of [1, 10, 50]) {
+      expect(sellImpact(pool, tokensToMovePrice(pool, percent)).priceImpact).toBeCloseTo(
+        percent,
+        9,
+      );
+    }
+    expect(tokensToMovePrice(pool, 100)).toBe(Number.POSITIVE_INFINITY);
+  });
+});
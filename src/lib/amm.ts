@@ -0,0 +1,74 @@
+// Constant-product (x * y = k) model of the launch liquidity pool. The pool
+// is held static at its seeded reserves, so impacts are for a single sell
+// with no arbitrage or added liquidity in between.
+
+export interface LiquidityPoolConfig {
+  // Category whose allocation seeds the token side of the pool
+  category: string;
+  // Amount of the paired asset deposited, in its own units
+  pairedAmount: number;
+  pairedSymbol: string;
+  pairedPriceUsd: number;
+}
+
+export interface PoolState {
+  tokenReserve: number;
+  // Paired side valued in USD
+  quoteReserve: number;
+}
+
+export interface SellImpact {
+  tokensIn: number;
+  quoteOut: number;
+  executionPrice: number;
+  // Fall in spot price after the sell, 0-100
+  priceImpact: number;
+}
+
+export const DEFAULT_LIQUIDITY: LiquidityPoolConfig = {
+  category: "liquidityPool",
+  pairedAmount: 50000,
+  pairedSymbol: "USDC",
+  pairedPriceUsd: 1,
+};
+
+// Shares of each monthly unlock assumed to be sold into the pool
+export const UNLOCK_SELL_SHARES = [0.01, 0.05, 0.1];
+
+export const createPool = (
+  tokenReserve: number,
+  { pairedAmount, pairedPriceUsd }: LiquidityPoolConfig,
+): PoolState => ({
+  tokenReserve,
+  quoteReserve: pairedAmount * pairedPriceUsd,
+});
+
+export const spotPrice = ({ tokenReserve, quoteReserve }: PoolState) =>
+  tokenReserve > 0 ? quoteReserve / tokenReserve : 0;
+
+// Total USD value locked on both sides of the pool
+export const poolDepth = ({ quoteReserve }: PoolState) => quoteReserve * 2;
+
+export const sellImpact = (pool: PoolState, tokensIn: number): SellImpact => {
+  const { tokenReserve, quoteReserve } = pool;
+  if (tokenReserve <= 0 || tokensIn <= 0) {
+    return { tokensIn, quoteOut: 0, executionPrice: spotPrice(pool), priceImpact: 0 };
+  }
+
+  const newTokenReserve = tokenReserve + tokensIn;
+  const newQuoteReserve = (tokenReserve * quoteReserve) / newTokenReserve;
+  const quoteOut = quoteReserve - newQuoteReserve;
+
+  return {
+    tokensIn,
+    quoteOut,
+    executionPrice: quoteOut / tokensIn,
+    priceImpact: (1 - (tokenReserve / newTokenReserve) ** 2) * 100,
+  };
+};
+
+// Tokens that have to be sold to push the spot price down by `percent`
+export const tokensToMovePrice = (pool: PoolState, percent: number) => {
+  if (percent >= 100) return Number.POSITIVE_INFINITY;
+  return pool.tokenReserve * (1 / Math.sqrt(1 - percent / 100) - 1);
+};
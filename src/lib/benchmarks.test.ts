@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { percentileBand, percentileRank } from "./benchmarks";
+
+describe("percentileBand", () => {
+  it("interpolates quartiles between the sorted values", () => {
+    expect(percentileBand([40, 10, 30, 20])).toEqual({
+      min: 10,
+      p25: 17.5,
+      median: 25,
+      p75: 32.5,
+      max: 40,
+    });
+  });
+
+  it("uses the middle value as the median of an odd count", () => {
+    expect(percentileBand([5, 1, 9, 3, 7])).toEqual({
+      min: 1,
+      p25: 3,
+      median: 5,
+      p75: 7,
+      max: 9,
+    });
+  });
+
+  it("collapses to the value for a single profile", () => {
+    expect(percentileBand([12])).toEqual({
+      min: 12,
+      p25: 12,
+      median: 12,
+      p75: 12,
+      max: 12,
+    });
+  });
+});
+
+describe("percentileRank", () => {
+  it("counts ties as half below", () => {
+    expect(percentileRank([10, 20, 30, 40], 25)).toBe(50);
+    expect(percentileRank([10, 20, 30, 40], 20)).toBe(37.5);
+    expect(percentileRank([10, 20, 30, 40], 5)).toBe(0);
+    expect(percentileRank([], 5)).toBe(0);
+  });
+});
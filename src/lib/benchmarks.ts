@@ -0,0 +1,234 @@
+// Reference tokenomics of past launches, bundled so comparisons work
+// offline. Profiles are anonymized and simplified to one allocation per
+// category role, each with a TGE unlock, cliff and linear vesting length.
+//
+// A scenario is compared role by role: its categories are grouped by `role`
+// (unset counts as "other") and each group's TGE, cliff and vesting length
+// are averaged by allocation.
+
+import {
+  DEFAULT_VESTING,
+  CategoryRole,
+  Distribution,
+  TokenomicsScenario,
+} from "./tokenomics";
+
+export type BenchmarkSector = "l1" | "defi" | "gaming";
+
+export const BENCHMARK_SECTORS: { value: BenchmarkSector; label: string }[] = [
+  { value: "l1", label: "L1" },
+  { value: "defi", label: "DeFi" },
+  { value: "gaming", label: "Gaming" },
+];
+
+export interface BenchmarkAllocation {
+  // % of the genesis supply
+  percentage: number;
+  // % of the allocation released at TGE
+  tge: number;
+  cliff: number;
+  duration: number;
+}
+
+export type BenchmarkMetric = keyof BenchmarkAllocation;
+
+export interface BenchmarkProfile {
+  id: string;
+  name: string;
+  sector: BenchmarkSector;
+  allocations: Record<CategoryRole, BenchmarkAllocation>;
+}
+
+export const BENCHMARK_ROLES: { value: CategoryRole; label: string; color: string }[] = [
+  { value: "team", label: "Team", color: "#45B7D1" },
+  { value: "investors", label: "Investors", color: "#4ECDC4" },
+  { value: "public", label: "Public Sale", color: "#FF6B6B" },
+  { value: "other", label: "Ecosystem & Treasury", color: "#FFEEAD" },
+];
+
+// Overlay colors, in selection order
+export const BENCHMARK_COLORS = ["#E0E0E0", "#F9D56E", "#B39DDB"];
+
+// [percentage, tge, cliff, duration]
+type AllocationRow = [number, number, number, number];
+
+const profile = (
+  id: string,
+  name: string,
+  sector: BenchmarkSector,
+  team: AllocationRow,
+  investors: AllocationRow,
+  publicSale: AllocationRow,
+  other: AllocationRow,
+): BenchmarkProfile => {
+  const allocation = ([percentage, tge, cliff, duration]: AllocationRow) => ({
+    percentage,
+    tge,
+    cliff,
+    duration,
+  });
+  return {
+    id,
+    name,
+    sector,
+    allocations: {
+      team: allocation(team),
+      investors: allocation(investors),
+      public: allocation(publicSale),
+      other: allocation(other),
+    },
+  };
+};
+
+export const BENCHMARK_PROFILES: BenchmarkProfile[] = [
+  profile("l1-a", "L1 A", "l1", [20, 0, 12, 36], [17, 0, 12, 24], [8, 25, 0, 6], [55, 5, 0, 48]),
+  profile("l1-b", "L1 B", "l1", [18, 0, 12, 48], [20, 0, 12, 36], [12, 20, 0, 12], [50, 10, 0, 60]),
+  profile("l1-c", "L1 C", "l1", [15, 0, 12, 36], [25, 0, 6, 24], [5, 100, 0, 0], [55, 4, 0, 48]),
+  profile("l1-d", "L1 D", "l1", [22, 0, 12, 36], [16, 0, 12, 24], [10, 15, 0, 12], [52, 8, 0, 72]),
+  profile("l1-e", "L1 E", "l1", [12, 0, 6, 24], [14, 5, 6, 18], [20, 25, 0, 6], [54, 3, 0, 36]),
+  profile("defi-a", "DeFi A", "defi", [18, 0, 12, 24], [12, 0, 12, 24], [5, 50, 0, 6], [65, 10, 0, 48]),
+  profile("defi-b", "DeFi B", "defi", [20, 0, 6, 36], [15, 0, 6, 24], [10, 30, 0, 6], [55, 5, 0, 36]),
+  profile("defi-c", "DeFi C", "defi", [15, 0, 12, 36], [20, 0, 12, 24], [3, 100, 0, 0], [62, 15, 0, 48]),
+  profile("defi-d", "DeFi D", "defi", [25, 0, 12, 36], [18, 5, 6, 18], [7, 25, 0, 3], [50, 8, 0, 60]),
+  profile("defi-e", "DeFi E", "defi", [12, 0, 12, 24], [10, 0, 6, 12], [15, 20, 0, 6], [63, 12, 0, 36]),
+  profile("gaming-a", "Gaming A", "gaming", [15, 0, 12, 36], [18, 5, 6, 24], [7, 20, 0, 6], [60, 3, 0, 60]),
+  profile("gaming-b", "Gaming B", "gaming", [20, 0, 6, 36], [22, 5, 6, 24], [10, 25, 0, 9], [48, 5, 0, 48]),
+  profile("gaming-c", "Gaming C", "gaming", [17, 0, 12, 36], [15, 0, 12, 24], [5, 100, 0, 0], [63, 6, 0, 72]),
+  profile("gaming-d", "Gaming D", "gaming", [12, 0, 12, 24], [20, 10, 3, 18], [13, 30, 0, 6], [55, 2, 0, 36]),
+  profile("gaming-e", "Gaming E", "gaming", [18, 0, 9, 30], [12, 5, 6, 18], [8, 15, 0, 12], [62, 4, 0, 48]),
+];
+
+export const findBenchmark = (id: string) =>
+  BENCHMARK_PROFILES.find((candidate) => candidate.id === id);
+
+// The parts of a scenario a benchmark profile borrows
+export type BenchmarkBase = Pick<
+  TokenomicsScenario,
+  "totalSupply" | "initialTokenPrice" | "tgeDate" | "alignToMonthEnd"
+>;
+
+// A scenario for the profile on the same calendar and horizon as `base`, so
+// its unlock schedule samples the same days as the base scenario's
+export const benchmarkScenario = (
+  benchmark: BenchmarkProfile,
+  base: BenchmarkBase,
+  horizonMonths: number,
+): TokenomicsScenario => ({
+  totalSupply: base.totalSupply,
+  initialTokenPrice: base.initialTokenPrice,
+  tgeDate: base.tgeDate,
+  alignToMonthEnd: base.alignToMonthEnd,
+  horizonMonths,
+  distribution: Object.fromEntries(
+    BENCHMARK_ROLES.map(({ value, label, color }) => [
+      value,
+      {
+        name: label,
+        color,
+        ...DEFAULT_VESTING,
+        ...benchmark.allocations[value],
+        role: value,
+      },
+    ]),
+  ),
+});
+
+// The scenario's categories summed per role; roles it doesn't use are left out
+export const roleAllocations = (distribution: Distribution) => {
+  const allocations: Partial<Record<CategoryRole, BenchmarkAllocation>> = {};
+
+  BENCHMARK_ROLES.forEach(({ value }) => {
+    const categories = Object.values(distribution).filter(
+      (data) => (data.role ?? "other") === value,
+    );
+    if (categories.length === 0) return;
+    const percentage = categories.reduce((sum, data) => sum + data.percentage, 0);
+
+    const average = (field: "tge" | "cliff" | "duration") =>
+      percentage > 0
+        ? categories.reduce((sum, data) => sum + data[field] * data.percentage, 0) /
+          percentage
+        : 0;
+    allocations[value] = {
+      percentage,
+      tge: average("tge"),
+      cliff: average("cliff"),
+      duration: average("duration"),
+    };
+  });
+
+  return allocations;
+};
+
+// Share (0-100) of `values` below `value`, counting ties as half below
+export const percentileRank = (values: number[], value: number) => {
+  if (values.length === 0) return 0;
+  const below = values.filter((candidate) => candidate < value).length;
+  const equal = values.filter((candidate) => candidate === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+};
+
+// Linearly interpolated percentile of `sorted` (ascending), p in 0-100
+const percentile = (sorted: number[], p: number) => {
+  const index = ((sorted.length - 1) * p) / 100;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export interface PercentileBand {
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+}
+
+export const percentileBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    p25: percentile(sorted, 25),
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+export interface BenchmarkComparison {
+  role: CategoryRole;
+  metric: BenchmarkMetric;
+  value: number;
+  // Percentile of `value` among the compared profiles
+  rank: number;
+  band: PercentileBand;
+}
+
+// Every metric of every role the scenario uses, against the profiles of
+// `sector`, or all profiles when no sector is given
+export const compareToBenchmarks = (
+  distribution: Distribution,
+  sector?: BenchmarkSector,
+  metrics: BenchmarkMetric[] = ["percentage", "tge", "cliff", "duration"],
+): BenchmarkComparison[] => {
+  const profiles = BENCHMARK_PROFILES.filter(
+    (benchmark) => !sector || benchmark.sector === sector,
+  );
+  const allocations = roleAllocations(distribution);
+  if (profiles.length === 0) return [];
+
+  return BENCHMARK_ROLES.filter(({ value }) => allocations[value]).flatMap(
+    ({ value: role }) =>
+      metrics.map((metric) => {
+        const values = profiles.map((benchmark) => benchmark.allocations[role][metric]);
+        const value = allocations[role][metric];
+        return {
+          role,
+          metric,
+          value,
+          rank: percentileRank(values, value),
+          band: percentileBand(values),
+        };
+      }),
+  );
+};
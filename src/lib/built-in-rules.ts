@@ -0,0 +1,215 @@
+// The rules the planner ships with.
+//
+// Categories are matched by `role` and the liquidity pool config rather
+// than by key, so renamed or newly added categories are still covered.
+
+import { TokenomicsRule } from "./rules";
+import { TokenomicsScenario, categoryAllocations } from "./tokenomics";
+import { DEEP_PROFIT_MULTIPLE, summarizeRounds } from "./fundraising";
+import { UNLOCK_SELL_SHARES } from "./amm";
+
+// Months of dilution measured by the dilution rule
+const DILUTION_WINDOW_MONTHS = 12;
+
+// Share (0-100) of the genesis supply held by categories with `role`
+const roleAllocation = (
+  scenario: TokenomicsScenario,
+  role: string,
+) =>
+  Object.values(scenario.distribution)
+    .filter((data) => data.role === role)
+    .reduce((sum, data) => sum + data.percentage, 0);
+
+const formatMonth = (month: number) => (month === 0 ? "TGE" : `month ${month}`);
+
+export const BUILT_IN_RULES: TokenomicsRule[] = [
+  {
+    id: "tge-circulating",
+    name: "High TGE unlock",
+    severity: "warning",
+    rationale:
+      "A large float at launch meets thin liquidity and early sellers, which tends to push the price down in the first days of trading.",
+    threshold: { label: "Max TGE circulating", unit: "%", value: 25, min: 0, max: 100, step: 1 },
+    check: ({ tgeCirculatingPercent }, threshold) =>
+      tgeCirculatingPercent > threshold
+        ? `${tgeCirculatingPercent.toFixed(1)}% of the supply circulates at TGE, which may cause price instability`
+        : undefined,
+  },
+  {
+    id: "fdv-mcap-ratio",
+    name: "High FDV/MCap ratio",
+    severity: "warning",
+    rationale:
+      "The FDV/MCap ratio shows how much supply is still locked. A high ratio means most tokens are still to come, and each unlock dilutes holders.",
+    threshold: { label: "Max FDV/MCap", unit: "x", value: 100, min: 1, step: 1 },
+    check: ({ fdvToMcapRatio }, threshold) =>
+      fdvToMcapRatio > threshold
+        ? `FDV is ${
+            Number.isFinite(fdvToMcapRatio) ? `${fdvToMcapRatio.toFixed(1)}x` : "infinitely"
+          } the initial market cap, indicating significant future dilution`
+        : undefined,
+  },
+  {
+    id: "team-allocation",
+    name: "High team allocation",
+    severity: "warning",
+    rationale:
+      "Buyers and exchanges read a large team share as insider concentration and as future sell pressure. Above roughly a fifth of the supply draws scrutiny.",
+    threshold: { label: "Max team share", unit: "%", value: 20, min: 0, max: 100, step: 1 },
+    check: ({ scenario }, threshold) => {
+      const team = roleAllocation(scenario, "team");
+      return team > threshold
+        ? `Team categories hold ${team.toFixed(1)}% of the supply`
+        : undefined;
+    },
+  },
+  {
+    id: "liquidity-allocation",
+    name: "Low liquidity allocation",
+    severity: "warning",
+    rationale:
+      "The launch pool absorbs early trading. A small pool lets modest sells move the price a long way.",
+    threshold: { label: "Min pool share", unit: "%", value: 5, min: 0, max: 100, step: 0.5 },
+    check: ({ scenario }, threshold) => {
+      const pool = scenario.liquidity && scenario.distribution[scenario.liquidity.category];
+      return pool && pool.percentage < threshold
+        ? `${pool.name} holds only ${pool.percentage.toFixed(1)}% of the supply, which may cause price volatility`
+        : undefined;
+    },
+  },
+  {
+    id: "concurrent-round-profit",
+    name: "Profitable rounds unlock together",
+    severity: "warning",
+    rationale:
+      "Investors sitting on a multiple of their entry price are likely to take profit. Several rounds doing so in the same month adds up to heavy selling.",
+    threshold: {
+      label: "Profit multiple",
+      unit: "x",
+      value: DEEP_PROFIT_MULTIPLE,
+      min: 1,
+      step: 0.5,
+    },
+    check: ({ scenario, unlockSchedule }, threshold) => {
+      const { concurrentProfitMonth, concurrentProfitRounds } = summarizeRounds(
+        scenario,
+        unlockSchedule,
+        threshold,
+      );
+      return concurrentProfitMonth !== undefined
+        ? `${concurrentProfitRounds.join(", ")} unlock together at ${threshold}x+ ` +
+            `profit in ${formatMonth(concurrentProfitMonth)}, which may cause sell pressure`
+        : undefined;
+    },
+  },
+  {
+    id: "pool-unlock-impact",
+    name: "Unlocks overwhelm the pool",
+    severity: "critical",
+    rationale:
+      "If part of a single month's unlock can move the pool price sharply, the pool is too shallow for the unlock schedule.",
+    threshold: { label: "Max price impact", unit: "%", value: 10, min: 0, max: 100, step: 1 },
+    check: ({ unlockImpact }, threshold) =>
+      unlockImpact !== undefined && unlockImpact > threshold
+        ? `Selling ${UNLOCK_SELL_SHARES[UNLOCK_SELL_SHARES.length - 1] * 100}% of the ` +
+          `largest monthly unlock would move the pool price by ${unlockImpact.toFixed(1)}%`
+        : undefined,
+  },
+  {
+    id: "largest-monthly-unlock",
+    name: "Large single-month unlock",
+    severity: "warning",
+    rationale:
+      "An unlock that is large compared with what already circulates can flood the market, even when the total supply is vested slowly overall.",
+    threshold: { label: "Max unlock vs circulating", unit: "%", value: 25, min: 0, step: 1 },
+    check: ({ unlocks }, threshold) => {
+      const largest = unlocks
+        .filter((unlock) => unlock.month > 0 && unlock.previousCirculating > 0)
+        .map((unlock) => ({
+          month: unlock.month,
+          percent: (unlock.unlocked / unlock.previousCirculating) * 100,
+        }))
+        .reduce<{ month: number; percent: number } | undefined>(
+          (max, unlock) => (!max || unlock.percent > max.percent ? unlock : max),
+          undefined,
+        );
+      return largest && largest.percent > threshold
+        ? `Month ${largest.month} unlocks ${largest.percent.toFixed(1)}% of the circulating supply`
+        : undefined;
+    },
+  },
+  {
+    id: "insiders-before-public",
+    name: "Insiders unlock before the public",
+    severity: "critical",
+    rationale:
+      "When team and investors can sell while public buyers are still locked, insiders get the exit liquidity. Communities and launchpads treat this as a red flag.",
+    threshold: { label: "Max insider unlock", unit: "%", value: 10, min: 0, max: 100, step: 1 },
+    check: ({ scenario, unlockSchedule }, threshold) => {
+      const { distribution } = scenario;
+      const allocations = categoryAllocations(scenario);
+      const publicCategories = Object.keys(distribution).filter(
+        (category) => distribution[category].role === "public",
+      );
+      const insiderCategories = Object.keys(distribution).filter((category) =>
+        ["team", "investors"].includes(distribution[category].role),
+      );
+      const insiderTokens = insiderCategories.reduce(
+        (sum, category) => sum + allocations[category],
+        BigInt(0),
+      );
+      if (publicCategories.length === 0 || insiderTokens === BigInt(0)) return undefined;
+
+      const publicVestedIndex = unlockSchedule.findIndex((point) =>
+        publicCategories.every(
+          (category) => point.categories[category].baseUnits >= allocations[category],
+        ),
+      );
+      // Insiders are measured at the last sample before the public sale is
+      // fully vested
+      const before =
+        unlockSchedule[
+          publicVestedIndex === -1 ? unlockSchedule.length - 1 : Math.max(0, publicVestedIndex - 1)
+        ];
+      const insiderUnlocked = insiderCategories.reduce(
+        (sum, category) => sum + before.categories[category].baseUnits,
+        BigInt(0),
+      );
+      const insiderPercent = (Number(insiderUnlocked) / Number(insiderTokens)) * 100;
+
+      return insiderPercent > threshold
+        ? `Team and investors have ${insiderPercent.toFixed(1)}% of their tokens unlocked before the public sale is fully vested` +
+            (publicVestedIndex === -1
+              ? ""
+              : ` in month ${Math.ceil(unlockSchedule[publicVestedIndex].month)}`)
+        : undefined;
+    },
+  },
+  {
+    id: "twelve-month-dilution",
+    name: "High 12-month dilution",
+    severity: "warning",
+    rationale:
+      "New supply entering circulation in the first year, from unlocks and emissions net of burns, has to be absorbed by demand. A high rate weighs on the price.",
+    threshold: { label: "Max new supply", unit: "%", value: 30, min: 0, max: 100, step: 1 },
+    check: ({ unlockSchedule }, threshold) => {
+      const [tge] = unlockSchedule;
+      const end =
+        unlockSchedule.find((point) => point.month >= DILUTION_WINDOW_MONTHS) ??
+        unlockSchedule[unlockSchedule.length - 1];
+      const dilution =
+        end.netSupply > 0
+          ? ((end.netCirculating - tge.netCirculating) / end.netSupply) * 100
+          : 0;
+      return dilution > threshold
+        ? `${dilution.toFixed(1)}% of the supply enters circulation in the ${
+            DILUTION_WINDOW_MONTHS
+          } months after TGE`
+        : undefined;
+    },
+  },
+];
+
+export const findRule = (id: string) =>
+  BUILT_IN_RULES.find((rule) => rule.id === id);
+
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { BurnSchedule, DEFAULT_BURNS, generateBurns, hasBurns } from "./burns";
+
+const burns = (schedule: Partial<BurnSchedule>): BurnSchedule => ({
+  ...DEFAULT_BURNS,
+  ...schedule,
+});
+
+describe("hasBurns", () => {
+  it("ignores empty and zero-amount schedules", () => {
+    expect(hasBurns(undefined)).toBe(false);
+    expect(hasBurns(DEFAULT_BURNS)).toBe(false);
+    expect(hasBurns(burns({ oneOff: [{ month: 3, amount: 0 }] }))).toBe(false);
+    expect(hasBurns(burns({ monthlyAmount: 1 }))).toBe(true);
+  });
+});
+
+describe("generateBurns", () => {
+  it("burns a fixed amount plus one-offs on each monthly boundary", () => {
+    const burned = generateBurns(
+      burns({ monthlyAmount: 10, oneOff: [{ month: 0, amount: 5 }, { month: 2, amount: 50 }] }),
+      [0, 1, 2, 3],
+      [1_000, 1_000, 1_000, 1_000],
+    );
+    expect(burned).toEqual([5, 15, 75, 85]);
+  });
+
+  it("takes the percentage burn from net circulating supply", () => {
+    const burned = generateBurns(
+      burns({ monthlyCirculatingPercent: 10 }),
+      [0, 1, 2],
+      [1_000, 1_000, 1_000],
+    );
+    expect(burned).toEqual([0, 100, 190]);
+  });
+
+  it("only burns when a sample crosses into a new month", () => {
+    const burned = generateBurns(
+      burns({ monthlyAmount: 10 }),
+      [0, 0.5, 29 / 30, 1, 1.5],
+      [1_000, 1_000, 1_000, 1_000, 1_000],
+    );
+    expect(burned).toEqual([0, 0, 0, 10, 10]);
+  });
+
+  it("never burns more than is circulating", () => {
+    const burned = generateBurns(
+      burns({ monthlyAmount: 80, oneOff: [{ month: 0, amount: 500 }] }),
+      [0, 1, 2],
+      [100, 150, 200],
+    );
+    expect(burned).toEqual([100, 150, 200]);
+  });
+});
@@ -0,0 +1,64 @@
+// Tokens permanently removed from supply: fee burns, buyback-and-burn
+// programs and one-off treasury burns. Burns come out of circulating supply
+// and are applied on monthly boundaries.
+
+export interface OneOffBurn {
+  month: number;
+  amount: number;
+}
+
+export interface BurnSchedule {
+  // Tokens burned at the end of every month
+  monthlyAmount: number;
+  // % of net circulating supply burned at the end of every month
+  monthlyCirculatingPercent: number;
+  oneOff: OneOffBurn[];
+}
+
+export const DEFAULT_BURNS: BurnSchedule = {
+  monthlyAmount: 0,
+  monthlyCirculatingPercent: 0,
+  oneOff: [],
+};
+
+export const hasBurns = (burns: BurnSchedule | undefined) =>
+  !!burns &&
+  (burns.monthlyAmount > 0 ||
+    burns.monthlyCirculatingPercent > 0 ||
+    burns.oneOff.some((burn) => burn.amount > 0));
+
+// Cumulative burned tokens at each sampled day, given its month offset and
+// gross circulating supply. The samples must include every monthly boundary,
+// as each month's burn is taken from the circulating supply there.
+export const generateBurns = (
+  burns: BurnSchedule | undefined,
+  months: number[],
+  circulating: number[],
+) => {
+  const burned = new Array<number>(months.length).fill(0);
+  if (!hasBurns(burns)) return burned;
+
+  const oneOffAt = (month: number) =>
+    burns.oneOff
+      .filter((burn) => burn.month === month)
+      .reduce((sum, burn) => sum + burn.amount, 0);
+
+  let total = Math.min(oneOffAt(0), circulating[0]);
+  burned[0] = total;
+
+  for (let index = 1; index < months.length; index++) {
+    const month = Math.floor(months[index]);
+    if (month > Math.floor(months[index - 1])) {
+      const netCirculating = circulating[index] - total;
+      const amount =
+        burns.monthlyAmount +
+        (netCirculating * burns.monthlyCirculatingPercent) / 100 +
+        oneOffAt(month);
+      // Locked tokens can't be bought back, so never burn below zero
+      total += Math.min(amount, netCirculating);
+    }
+    burned[index] = total;
+  }
+
+  return burned;
+};
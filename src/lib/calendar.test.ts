@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { addMonths, createCalendar, parseISODate, toISODate } from "./calendar";
+
+const monthDays = (calendar: ReturnType<typeof createCalendar>, months: number) =>
+  Array.from({ length: months + 1 }, (_, month) => calendar.monthToDay(month));
+
+describe("createCalendar", () => {
+  it("uses 30-day months without a TGE date", () => {
+    const calendar = createCalendar({});
+    expect(monthDays(calendar, 3)).toEqual([0, 30, 60, 90]);
+    expect(calendar.dayToMonth(45)).toBe(1.5);
+    expect(calendar.dayToDate(45)).toBeUndefined();
+  });
+
+  it("follows real month lengths from the TGE date", () => {
+    const calendar = createCalendar({ tgeDate: "2023-01-01" });
+    // January, February (not a leap year), March, April
+    expect(monthDays(calendar, 4)).toEqual([0, 31, 59, 90, 120]);
+    expect(toISODate(calendar.dayToDate(59))).toBe("2023-03-01");
+  });
+
+  it("clamps month-end TGE dates to shorter months", () => {
+    const calendar = createCalendar({ tgeDate: "2024-01-31" });
+    const dates = monthDays(calendar, 3).map((day) => toISODate(calendar.dayToDate(day)));
+    expect(dates).toEqual(["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"]);
+  });
+
+  it("moves monthly unlocks to the end of their calendar month", () => {
+    const calendar = createCalendar({ tgeDate: "2024-01-15", alignToMonthEnd: true });
+    const dates = monthDays(calendar, 2).map((day) => toISODate(calendar.dayToDate(day)));
+    expect(dates).toEqual(["2024-01-15", "2024-02-29", "2024-03-31"]);
+  });
+
+  it("maps days back to months within each calendar month", () => {
+    const calendar = createCalendar({ tgeDate: "2023-02-01" });
+    expect(calendar.dayToMonth(28)).toBe(1);
+    expect(calendar.dayToMonth(14)).toBe(0.5);
+    for (let month = 0; month <= 24; month++) {
+      expect(calendar.dayToMonth(calendar.monthToDay(month))).toBe(month);
+    }
+  });
+});
+
+describe("parseISODate", () => {
+  it("reads YYYY-MM-DD dates as UTC and rejects other formats", () => {
+    expect(parseISODate("2024-03-10")?.getTime()).toBe(Date.UTC(2024, 2, 10));
+    expect(parseISODate("10/03/2024")).toBeUndefined();
+    expect(parseISODate(undefined)).toBeUndefined();
+  });
+});
+
+describe("addMonths", () => {
+  it("keeps the day of month across year boundaries", () => {
+    expect(toISODate(addMonths(new Date(Date.UTC(2024, 10, 30)), 3))).toBe("2025-02-28");
+  });
+});
@@ -0,0 +1,97 @@
+// Maps schedule months to day offsets from TGE. Without a TGE date every
+// month is 30 days; with one, months follow the real calendar.
+
+export interface CalendarOptions {
+  // ISO date (YYYY-MM-DD) of the token generation event
+  tgeDate?: string;
+  // Move each monthly unlock to the last day of its calendar month
+  alignToMonthEnd?: boolean;
+}
+
+export interface ScheduleCalendar {
+  tgeDate?: Date;
+  monthToDay: (month: number) => number;
+  dayToMonth: (day: number) => number;
+  dayToDate: (day: number) => Date | undefined;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const parseISODate = (value: string | undefined) => {
+  const match = value && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+
+  const date = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+export const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Same day of month `months` later, clamped to the end of shorter months
+export const addMonths = (date: Date, months: number) => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const day = Math.min(
+    date.getUTCDate(),
+    daysInMonth(year + Math.floor(month / 12), ((month % 12) + 12) % 12),
+  );
+  return new Date(Date.UTC(year, month, day));
+};
+
+export const endOfMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+
+export const createCalendar = ({
+  tgeDate,
+  alignToMonthEnd,
+}: CalendarOptions): ScheduleCalendar => {
+  const tge = parseISODate(tgeDate);
+
+  if (!tge) {
+    return {
+      monthToDay: (month) => Math.round(month * 30),
+      dayToMonth: (day) => day / 30,
+      dayToDate: () => undefined,
+    };
+  }
+
+  const boundaries: number[] = [0];
+  const boundary = (month: number) => {
+    for (let m = boundaries.length; m <= month; m++) {
+      const date = alignToMonthEnd
+        ? endOfMonth(addMonths(tge, m))
+        : addMonths(tge, m);
+      boundaries.push(Math.round((date.getTime() - tge.getTime()) / MS_PER_DAY));
+    }
+    return boundaries[month];
+  };
+
+  const monthToDay = (month: number) => {
+    if (month <= 0) return 0;
+    const whole = Math.floor(month);
+    const start = boundary(whole);
+    if (whole === month) return start;
+    return Math.round(start + (boundary(whole + 1) - start) * (month - whole));
+  };
+
+  const dayToMonth = (day: number) => {
+    if (day <= 0) return 0;
+    let month = Math.floor(day / 31);
+    while (month > 0 && boundary(month) > day) month--;
+    while (boundary(month + 1) <= day) month++;
+    const start = boundary(month);
+    return month + (day - start) / (boundary(month + 1) - start);
+  };
+
+  return {
+    tgeDate: tge,
+    monthToDay,
+    dayToMonth,
+    dayToDate: (day) => new Date(tge.getTime() + day * MS_PER_DAY),
+  };
+};
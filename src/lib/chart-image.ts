@@ -0,0 +1,208 @@
+// Standalone SVG and PNG images of rendered recharts charts. The dark-theme
+// whites are swapped for dark greys so axes and labels read on a light page,
+// and the HTML legend recharts draws beside the SVG is redrawn inside it.
+
+import { downloadFile } from "./download";
+
+export type ChartBackground = "transparent" | "light";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const LIGHT_BACKGROUND = "#ffffff";
+const TEXT_COLOR = "#1f2937";
+const GRID_COLOR = "#d1d5db";
+const PNG_SCALE = 3;
+
+const LEGEND_FONT_SIZE = 11;
+const LEGEND_ROW_HEIGHT = 18;
+const LEGEND_ICON_SIZE = 8;
+// Rough glyph width used to wrap legend rows without measuring text
+const LEGEND_CHAR_WIDTH = 6.2;
+const LEGEND_PADDING = 12;
+
+const COLOR_ATTRIBUTES = ["fill", "stroke", "color", "stop-color"];
+
+// Opaque whites become text, translucent whites (grids, guides) become grey
+const recolor = (value: string) => {
+  const color = value.trim().toLowerCase().replace(/\s+/g, "");
+  if (["#fff", "#ffffff", "white", "rgb(255,255,255)"].includes(color)) {
+    return TEXT_COLOR;
+  }
+
+  const hexAlpha = /^#ffffff([0-9a-f]{2})$/.exec(color);
+  const rgbaAlpha = /^rgba\(255,255,255,([\d.]+)\)$/.exec(color);
+  const alpha = hexAlpha
+    ? parseInt(hexAlpha[1], 16) / 255
+    : rgbaAlpha
+      ? Number(rgbaAlpha[1])
+      : undefined;
+  if (alpha === undefined) return value;
+  return alpha >= 0.5 ? TEXT_COLOR : GRID_COLOR;
+};
+
+const recolorElement = (element: Element) => {
+  COLOR_ATTRIBUTES.forEach((attribute) => {
+    const value = element.getAttribute(attribute);
+    if (value) element.setAttribute(attribute, recolor(value));
+  });
+
+  const style = (element as SVGElement).style;
+  if (style) {
+    COLOR_ATTRIBUTES.forEach((property) => {
+      const value = style.getPropertyValue(property);
+      if (value) style.setProperty(property, recolor(value));
+    });
+  }
+};
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+const readLegend = (container: HTMLElement): LegendEntry[] =>
+  Array.from(container.querySelectorAll(".recharts-legend-item")).map((item) => {
+    const icon = item.querySelector("svg path, svg line, svg rect");
+    const fill = icon?.getAttribute("fill");
+    return {
+      label: item.querySelector(".recharts-legend-item-text")?.textContent ?? "",
+      color: fill && fill !== "none" ? fill : icon?.getAttribute("stroke") ?? TEXT_COLOR,
+    };
+  });
+
+// Lays legend entries out in wrapped rows below the chart; returns the
+// height they take
+const appendLegend = (svg: SVGSVGElement, entries: LegendEntry[], top: number, width: number) => {
+  if (entries.length === 0) return 0;
+
+  const group = document.createElementNS(SVG_NS, "g");
+  group.setAttribute("font-size", String(LEGEND_FONT_SIZE));
+  let x = LEGEND_PADDING;
+  let row = 0;
+
+  entries.forEach(({ label, color }) => {
+    const itemWidth =
+      LEGEND_ICON_SIZE + 6 + label.length * LEGEND_CHAR_WIDTH + LEGEND_PADDING;
+    if (x > LEGEND_PADDING && x + itemWidth > width - LEGEND_PADDING) {
+      x = LEGEND_PADDING;
+      row++;
+    }
+    const y = top + row * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+
+    const icon = document.createElementNS(SVG_NS, "rect");
+    icon.setAttribute("x", String(x));
+    icon.setAttribute("y", String(y - LEGEND_ICON_SIZE / 2));
+    icon.setAttribute("width", String(LEGEND_ICON_SIZE));
+    icon.setAttribute("height", String(LEGEND_ICON_SIZE));
+    icon.setAttribute("fill", recolor(color));
+    group.appendChild(icon);
+
+    const text = document.createElementNS(SVG_NS, "text");
+    text.setAttribute("x", String(x + LEGEND_ICON_SIZE + 6));
+    text.setAttribute("y", String(y));
+    text.setAttribute("dominant-baseline", "central");
+    text.setAttribute("fill", TEXT_COLOR);
+    text.textContent = label;
+    group.appendChild(text);
+
+    x += itemWidth;
+  });
+
+  svg.appendChild(group);
+  return (row + 1) * LEGEND_ROW_HEIGHT + LEGEND_PADDING;
+};
+
+// `legend` replaces the chart's own legend, for charts drawn without one
+const renderChartSvg = (
+  container: HTMLElement,
+  background: ChartBackground,
+  legend?: LegendEntry[],
+) => {
+  const source = container.querySelector<SVGSVGElement>(".recharts-wrapper > svg");
+  if (!source) throw new Error("No chart to export.");
+
+  const width = Number(source.getAttribute("width"));
+  const chartHeight = Number(source.getAttribute("height"));
+  const svg = source.cloneNode(true) as SVGSVGElement;
+  svg.setAttribute("xmlns", SVG_NS);
+
+  // Text sizes and fonts come from page CSS, which the image won't have
+  const sourceTexts = source.querySelectorAll("text");
+  svg.querySelectorAll("text").forEach((text, index) => {
+    const computed = window.getComputedStyle(sourceTexts[index]);
+    text.setAttribute("font-family", computed.fontFamily);
+    text.setAttribute("font-size", computed.fontSize);
+  });
+  svg.setAttribute("font-family", window.getComputedStyle(source).fontFamily);
+  [svg, ...Array.from(svg.querySelectorAll("*"))].forEach(recolorElement);
+
+  const height = chartHeight + appendLegend(
+    svg,
+    legend ?? readLegend(container),
+    chartHeight,
+    width,
+  );
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+  if (background === "light") {
+    const fill = document.createElementNS(SVG_NS, "rect");
+    fill.setAttribute("width", "100%");
+    fill.setAttribute("height", "100%");
+    fill.setAttribute("fill", LIGHT_BACKGROUND);
+    svg.insertBefore(fill, svg.firstChild);
+  }
+
+  return {
+    markup: new XMLSerializer().serializeToString(svg),
+    width,
+    height,
+  };
+};
+
+export const exportChartSvg = (
+  container: HTMLElement,
+  fileName: string,
+  background: ChartBackground,
+  legend?: LegendEntry[],
+) => {
+  const { markup } = renderChartSvg(container, background, legend);
+  downloadFile(`${fileName}.svg`, markup, "image/svg+xml");
+};
+
+export const exportChartPng = async (
+  container: HTMLElement,
+  fileName: string,
+  background: ChartBackground,
+  legend?: LegendEntry[],
+) => {
+  const { markup, width, height } = renderChartSvg(container, background, legend);
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error("The chart could not be rendered."));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const context = canvas.getContext("2d");
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0, width, height);
+
+    const png = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("The chart could not be encoded as PNG.")),
+        "image/png",
+      ),
+    );
+    downloadFile(`${fileName}.png`, png, "image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,15 @@
+// Saves generated content as a file through a temporary object URL
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([content], { type }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// File-name-safe version of a scenario name
+export const fileSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "scenario";
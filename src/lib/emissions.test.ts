@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EMISSIONS,
+  EmissionSchedule,
+  emissionRate,
+  generateEmissions,
+} from "./emissions";
+
+const emissions = (schedule: Partial<EmissionSchedule>): EmissionSchedule => ({
+  ...DEFAULT_EMISSIONS,
+  ...schedule,
+});
+
+describe("emissionRate", () => {
+  it("decays yearly down to the minimum rate", () => {
+    const decaying = emissions({ model: "decaying", annualRate: 10, decayRate: 50, minRate: 2 });
+    expect([0, 11, 12, 24, 36].map((month) => emissionRate(decaying, month))).toEqual([
+      10, 10, 5, 2.5, 2,
+    ]);
+  });
+
+  it("halves every halving period", () => {
+    const halving = emissions({ model: "halving", annualRate: 8, halvingMonths: 24 });
+    expect([0, 23, 24, 48].map((month) => emissionRate(halving, month))).toEqual([
+      8, 8, 4, 2,
+    ]);
+  });
+});
+
+describe("generateEmissions", () => {
+  it("emits nothing without an emission model", () => {
+    expect(generateEmissions(undefined, 1_000, [0, 12])).toEqual([0, 0]);
+    expect(generateEmissions(emissions({ model: "none" }), 1_000, [0, 12])).toEqual([0, 0]);
+  });
+
+  it("compounds a fixed rate on supply once a year", () => {
+    const [start, year, twoYears] = generateEmissions(
+      emissions({ model: "fixed", annualRate: 10 }),
+      1_000,
+      [0, 12, 24],
+    );
+    expect(start).toBe(0);
+    expect(year).toBeCloseTo(100, 9);
+    expect(twoYears).toBeCloseTo(210, 9);
+  });
+
+  it("issues a fixed amount of initial supply per halving period", () => {
+    const emitted = generateEmissions(
+      emissions({ model: "halving", annualRate: 10, halvingMonths: 12 }),
+      1_000,
+      [6, 12, 24, 36],
+    );
+    expect(emitted).toEqual([50, 100, 150, 175]);
+  });
+
+  it("treats a zero halving period as one month", () => {
+    const emitted = generateEmissions(
+      emissions({ model: "halving", annualRate: 12, halvingMonths: 0 }),
+      1_000,
+      [1, 2],
+    );
+    expect(emitted).toEqual([10, 15]);
+  });
+
+  it("stops at the max supply", () => {
+    const emitted = generateEmissions(
+      emissions({ model: "fixed", annualRate: 10, maxSupply: 1_150 }),
+      1_000,
+      [12, 24, 36],
+    );
+    expect(emitted[0]).toBeCloseTo(100, 9);
+    expect(emitted.slice(1)).toEqual([150, 150]);
+  });
+
+  it("does not depend on how finely months are sampled", () => {
+    const schedule = emissions({ model: "decaying", annualRate: 10, decayRate: 20 });
+    const [coarse] = generateEmissions(schedule, 1_000, [30]);
+    const fine = generateEmissions(
+      schedule,
+      1_000,
+      Array.from({ length: 301 }, (_, index) => index / 10),
+    );
+    expect(fine[300]).toBeCloseTo(coarse, 9);
+  });
+});
@@ -0,0 +1,95 @@
+// Ongoing token issuance on top of the genesis distribution, e.g. staking
+// rewards or validator inflation. Emitted tokens are circulating as soon as
+// they are minted.
+
+export type EmissionModel = "none" | "fixed" | "decaying" | "halving";
+
+export interface EmissionSchedule {
+  model: EmissionModel;
+  // Yearly inflation in % of current supply ("fixed", "decaying"), or the
+  // first year's issuance in % of initial supply ("halving")
+  annualRate: number;
+  // "decaying": the rate drops by this % every year, down to `minRate`
+  decayRate: number;
+  minRate: number;
+  // "halving": issuance halves every this many months
+  halvingMonths: number;
+  // Supply cap including the genesis supply; undefined means uncapped
+  maxSupply?: number;
+}
+
+export const DEFAULT_EMISSIONS: EmissionSchedule = {
+  model: "none",
+  annualRate: 5,
+  decayRate: 15,
+  minRate: 1.5,
+  halvingMonths: 48,
+};
+
+// Annual rate in effect `month` months after TGE
+export const emissionRate = (emissions: EmissionSchedule, month: number) => {
+  const years = Math.floor(month / 12);
+  switch (emissions.model) {
+    case "fixed":
+      return emissions.annualRate;
+    case "decaying":
+      return Math.max(
+        emissions.minRate,
+        emissions.annualRate * (1 - emissions.decayRate / 100) ** years,
+      );
+    case "halving":
+      return (
+        emissions.annualRate *
+        0.5 ** Math.floor(month / Math.max(1, emissions.halvingMonths))
+      );
+    default:
+      return 0;
+  }
+};
+
+// Tokens emitted in the first `month` months, uncapped. Halving issues a
+// fixed amount per period; the other models compound on supply once a year,
+// growing geometrically within it. Either way the total only depends on the
+// month, not on how finely the schedule is sampled.
+const emittedBy = (
+  emissions: EmissionSchedule,
+  initialSupply: number,
+  month: number,
+) => {
+  if (emissions.model === "halving") {
+    const period = Math.max(1, emissions.halvingMonths);
+    let total = 0;
+    for (let start = 0; start < month; start += period) {
+      const years = (Math.min(month, start + period) - start) / 12;
+      total += (initialSupply * emissionRate(emissions, start) * years) / 100;
+    }
+    return total;
+  }
+
+  let supply = initialSupply;
+  for (let start = 0; start < month; start += 12) {
+    const years = (Math.min(month, start + 12) - start) / 12;
+    supply *= (1 + emissionRate(emissions, start) / 100) ** years;
+  }
+  return supply - initialSupply;
+};
+
+// Cumulative emitted tokens at each of the given month offsets
+export const generateEmissions = (
+  emissions: EmissionSchedule | undefined,
+  initialSupply: number,
+  months: number[],
+) => {
+  if (!emissions || emissions.model === "none") {
+    return new Array<number>(months.length).fill(0);
+  }
+
+  const cap =
+    emissions.maxSupply !== undefined
+      ? Math.max(0, emissions.maxSupply - initialSupply)
+      : Number.POSITIVE_INFINITY;
+
+  return months.map((month) =>
+    Math.min(cap, emittedBy(emissions, initialSupply, month)),
+  );
+};
@@ -0,0 +1,16 @@
+// Display formatting shared by the planner's tables and the printed report
+
+export const formatTokens = (value: number) =>
+  Math.round(value).toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// A YYYY-MM-DD date as written by toISODate, shown in the reader's locale
+export const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
@@ -0,0 +1,117 @@
+// Investor economics for funding rounds. A round is any category with a
+// `tokenPrice`, so rounds vest through the same schedule as every other
+// allocation.
+
+import {
+  DistributionData,
+  TokenomicsScenario,
+  UnlockSchedule,
+  categoryTokens,
+} from "./tokenomics";
+
+// Rounds at or above this multiple of their entry price count as deeply in
+// profit for the concurrent-unlock warning, unless the rule is retuned
+export const DEEP_PROFIT_MULTIPLE = 3;
+// Share of a round's tokens that has to unlock within one month for it to
+// count towards the concurrent-unlock warning, e.g. a TGE or cliff release
+export const LARGE_UNLOCK_SHARE = 0.1;
+
+export interface RoundUnlock {
+  month: number;
+  tokens: number;
+  profit: number;
+}
+
+export interface RoundSummary {
+  category: string;
+  name: string;
+  tokenPrice: number;
+  tokens: number;
+  raised: number;
+  // Fully diluted valuation implied by the round price
+  valuation: number;
+  // Value at `initialTokenPrice` over the amount paid
+  roiMultiple: number;
+  unrealizedProfit: number;
+  // Tokens unlocked in each month (month 0 is TGE) and their profit
+  unlocks: RoundUnlock[];
+}
+
+export interface FundraisingSummary {
+  rounds: RoundSummary[];
+  totalRaised: number;
+  totalTokens: number;
+  // First month in which several deeply profitable rounds have a large
+  // unlock together
+  concurrentProfitMonth?: number;
+  concurrentProfitRounds: string[];
+}
+
+export const isFundingRound = (data: DistributionData) =>
+  data.tokenPrice !== undefined && data.tokenPrice > 0;
+
+export const summarizeRounds = (
+  scenario: TokenomicsScenario,
+  unlockSchedule: UnlockSchedule,
+  profitMultiple: number = DEEP_PROFIT_MULTIPLE,
+): FundraisingSummary => {
+  const { totalSupply, initialTokenPrice, distribution } = scenario;
+  // Schedule points that fall exactly on a month boundary
+  const monthly = unlockSchedule.filter((point) =>
+    Number.isInteger(point.month),
+  );
+
+  const allocations = categoryTokens(scenario);
+  const rounds = Object.entries(distribution)
+    .filter(([, data]) => isFundingRound(data))
+    .map(([category, data]): RoundSummary => {
+      const tokens = allocations[category];
+      const raised = tokens * data.tokenPrice;
+      const margin = initialTokenPrice - data.tokenPrice;
+
+      return {
+        category,
+        name: data.name,
+        tokenPrice: data.tokenPrice,
+        tokens,
+        raised,
+        valuation: totalSupply * data.tokenPrice,
+        roiMultiple: initialTokenPrice / data.tokenPrice,
+        unrealizedProfit: tokens * margin,
+        unlocks: monthly.map((point, index) => {
+          const unlocked =
+            point.categories[category].circulating -
+            (index > 0 ? monthly[index - 1].categories[category].circulating : 0);
+          return {
+            month: point.month,
+            tokens: unlocked,
+            profit: unlocked * margin,
+          };
+        }),
+      };
+    });
+
+  const deepProfitRounds = rounds.filter(
+    (round) => round.roiMultiple >= profitMultiple,
+  );
+  const concurrentUnlock = monthly
+    .map((point, index) => ({
+      month: point.month,
+      rounds: deepProfitRounds
+        .filter(
+          (round) =>
+            round.tokens > 0 &&
+            round.unlocks[index].tokens >= round.tokens * LARGE_UNLOCK_SHARE,
+        )
+        .map((round) => round.name),
+    }))
+    .find((unlock) => unlock.rounds.length > 1);
+
+  return {
+    rounds,
+    totalRaised: rounds.reduce((sum, round) => sum + round.raised, 0),
+    totalTokens: rounds.reduce((sum, round) => sum + round.tokens, 0),
+    concurrentProfitMonth: concurrentUnlock?.month,
+    concurrentProfitRounds: concurrentUnlock?.rounds ?? [],
+  };
+};
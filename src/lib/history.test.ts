@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  MERGE_WINDOW_MS,
+  TrackedScenario,
+  createHistory,
+  describeEdit,
+  recordEdit,
+  redoEdit,
+  trackedState,
+  undoEdit,
+} from "./history";
+import { DEFAULT_SCENARIO } from "./tokenomics";
+
+const initial = trackedState(DEFAULT_SCENARIO);
+const withSupply = (totalSupply: number): TrackedScenario => ({ ...initial, totalSupply });
+
+describe("recordEdit", () => {
+  it("merges edits to one control inside the merge window", () => {
+    let history = recordEdit(createHistory(), "Total supply", initial, 0, "totalSupply");
+    history = recordEdit(
+      history,
+      "Total supply",
+      withSupply(2),
+      MERGE_WINDOW_MS,
+      "totalSupply",
+    );
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].state).toBe(initial);
+
+    history = recordEdit(
+      history,
+      "Total supply",
+      withSupply(3),
+      MERGE_WINDOW_MS * 2 + 1,
+      "totalSupply",
+    );
+    expect(history.past).toHaveLength(2);
+  });
+
+  it("keeps one step when a drag changes the edit's label", () => {
+    let history = recordEdit(
+      createHistory(),
+      "Public Sale: allocation",
+      initial,
+      0,
+      "publicSale.percentage",
+    );
+    history = recordEdit(
+      history,
+      "Rebalanced allocation",
+      withSupply(2),
+      100,
+      "publicSale.percentage",
+    );
+    expect(history.past.map((entry) => entry.label)).toEqual(["Public Sale: allocation"]);
+  });
+
+  it("merges edits without a control by label", () => {
+    let history = recordEdit(createHistory(), "Reordered categories", initial, 0);
+    history = recordEdit(history, "Reordered categories", withSupply(2), 500);
+    history = recordEdit(history, "Added Category 8", withSupply(3), 600);
+    expect(history.past).toHaveLength(2);
+  });
+});
+
+describe("undoEdit and redoEdit", () => {
+  it("swap states between the stacks", () => {
+    const history = recordEdit(createHistory(), "Total supply", initial, 0);
+    const undone = undoEdit(history, withSupply(5));
+    expect(undone.state).toBe(initial);
+
+    const redone = redoEdit(undone.history, initial);
+    expect(redone.state).toEqual(withSupply(5));
+    expect(redoEdit(redone.history, withSupply(5))).toBeUndefined();
+  });
+});
+
+describe("describeEdit", () => {
+  it("names the edited field", () => {
+    const { publicSale } = initial.distribution;
+    expect(
+      describeEdit(initial, {
+        ...initial,
+        distribution: { ...initial.distribution, publicSale: { ...publicSale, tge: 50 } },
+      }),
+    ).toBe("Public Sale: TGE unlock");
+    expect(describeEdit(initial, initial)).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+// Undo/redo for planner edits to the supply, price and distribution. Each
+// entry keeps the state from before its edit: undoing restores it and moves
+// the entry, now holding the undone state, onto the redo stack.
+
+import type { DistributionData, TokenomicsScenario } from "./tokenomics";
+
+export type TrackedScenario = Pick<
+  TokenomicsScenario,
+  "totalSupply" | "initialTokenPrice" | "distribution"
+>;
+
+export interface HistoryEntry {
+  label: string;
+  // Edits with the same key merge: the control they came from when known,
+  // since a label derived from the values can change mid-gesture
+  mergeKey: string;
+  state: TrackedScenario;
+  // When the edit was last extended, in ms since the epoch
+  time: number;
+}
+
+export interface EditHistory {
+  // Oldest first
+  past: HistoryEntry[];
+  // Next redo first
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Edits to the same control closer together than this merge into one step,
+// so a slider drag or typing a number undoes in one go
+export const MERGE_WINDOW_MS = 1000;
+
+const CATEGORY_FIELD_LABELS: Record<keyof DistributionData, string> = {
+  name: "name",
+  color: "color",
+  percentage: "allocation",
+  tge: "TGE unlock",
+  duration: "vesting duration",
+  cliff: "cliff",
+  cliffRelease: "cliff release",
+  curve: "vesting curve",
+  milestones: "milestones",
+  tokenPrice: "round price",
+  role: "role",
+  locked: "lock",
+};
+
+export const createHistory = (): EditHistory => ({ past: [], future: [] });
+
+export const trackedState = ({
+  totalSupply,
+  initialTokenPrice,
+  distribution,
+}: TokenomicsScenario): TrackedScenario => ({
+  totalSupply,
+  initialTokenPrice,
+  distribution,
+});
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// A short description of what changed between two states; undefined when
+// nothing did
+export const describeEdit = (
+  before: TrackedScenario,
+  after: TrackedScenario,
+): string | undefined => {
+  const changes: string[] = [];
+  if (before.totalSupply !== after.totalSupply) changes.push("Total supply");
+  if (before.initialTokenPrice !== after.initialTokenPrice) changes.push("Token price");
+
+  const beforeKeys = Object.keys(before.distribution);
+  const afterKeys = Object.keys(after.distribution);
+  const added = afterKeys.filter((key) => !(key in before.distribution));
+  const removed = beforeKeys.filter((key) => !(key in after.distribution));
+  added.forEach((key) => changes.push(`Added ${after.distribution[key].name}`));
+  removed.forEach((key) => changes.push(`Removed ${before.distribution[key].name}`));
+
+  const kept = afterKeys.filter((key) => key in before.distribution);
+  const edited = kept
+    .map((key) => ({
+      name: after.distribution[key].name,
+      fields: (Object.keys(CATEGORY_FIELD_LABELS) as (keyof DistributionData)[]).filter(
+        (field) => !isSame(before.distribution[key][field], after.distribution[key][field]),
+      ),
+    }))
+    .filter(({ fields }) => fields.length > 0);
+
+  if (edited.length === 1) {
+    const [{ name, fields }] = edited;
+    changes.push(
+      `${name}: ${fields.map((field) => CATEGORY_FIELD_LABELS[field]).join(", ")}`,
+    );
+  } else if (edited.length > 1) {
+    // Allocation edits rescale the other categories to keep the total at 100%
+    changes.push(
+      edited.every(({ fields }) => fields.length === 1 && fields[0] === "percentage")
+        ? "Rebalanced allocation"
+        : "Edited categories",
+    );
+  }
+
+  if (
+    added.length === 0 &&
+    removed.length === 0 &&
+    !isSame(beforeKeys, afterKeys)
+  ) {
+    changes.push("Reordered categories");
+  }
+
+  return changes.length > 0 ? changes.join(", ") : undefined;
+};
+
+// Records an edit made from `previous`, clearing the redo stack. Edits not
+// tied to one control merge by label.
+export const recordEdit = (
+  history: EditHistory,
+  label: string,
+  previous: TrackedScenario,
+  time: number,
+  mergeKey = label,
+): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && last.mergeKey === mergeKey && time - last.time <= MERGE_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, time }], future: [] };
+  }
+  return {
+    past: [...history.past, { label, mergeKey, state: previous, time }].slice(
+      -MAX_HISTORY_ENTRIES,
+    ),
+    future: [],
+  };
+};
+
+// Both return undefined when there is nothing to undo or redo
+export const undoEdit = (history: EditHistory, current: TrackedScenario) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return undefined;
+  return {
+    state: entry.state,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ ...entry, state: current }, ...history.future],
+    },
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: TrackedScenario) => {
+  const [entry] = history.future;
+  if (!entry) return undefined;
+  return {
+    state: entry.state,
+    history: {
+      past: [...history.past, { ...entry, state: current }],
+      future: history.future.slice(1),
+    },
+  };
+};
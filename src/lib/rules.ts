@@ -0,0 +1,90 @@
+// Health rules behind the planner's warnings. Each rule reads the whole
+// scenario and schedule, fires above (or below) a tunable threshold, and
+// explains why the threshold matters. Scenarios keep per-rule overrides in
+// `rules`, so a rule can be disabled or retuned for one plan only.
+//
+// The rules themselves live in built-in-rules.ts; this module only depends
+// on tokenomics types, so the engine can evaluate rules without loading them.
+
+import type { MonthlyUnlock, TokenomicsScenario, UnlockSchedule } from "./tokenomics";
+
+export type RuleSeverity = "info" | "warning" | "critical";
+
+export interface RuleThreshold {
+  label: string;
+  unit: "%" | "x";
+  value: number;
+  min: number;
+  max?: number;
+  step: number;
+}
+
+// Values every rule can read; computed once per metrics run
+export interface RuleContext {
+  scenario: TokenomicsScenario;
+  // Monthly boundaries only, whatever resolution the metrics were run at
+  unlockSchedule: UnlockSchedule;
+  unlocks: MonthlyUnlock[];
+  tgeCirculatingPercent: number;
+  fdvToMcapRatio: number;
+  // Pool price impact of the largest monthly unlock; undefined without a pool
+  unlockImpact?: number;
+}
+
+export interface TokenomicsRule {
+  id: string;
+  name: string;
+  severity: RuleSeverity;
+  rationale: string;
+  threshold: RuleThreshold;
+  // Returns a message when the rule fires
+  check: (context: RuleContext, threshold: number) => string | undefined;
+}
+
+export interface RuleSetting {
+  enabled?: boolean;
+  threshold?: number;
+  severity?: RuleSeverity;
+}
+
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface RuleFinding {
+  ruleId: string;
+  name: string;
+  severity: RuleSeverity;
+  message: string;
+  rationale: string;
+}
+
+export const RULE_SEVERITIES: RuleSeverity[] = ["info", "warning", "critical"];
+
+export const ruleThreshold = (rule: TokenomicsRule, settings: RuleSettings = {}) =>
+  settings[rule.id]?.threshold ?? rule.threshold.value;
+
+export const ruleSeverity = (rule: TokenomicsRule, settings: RuleSettings = {}) =>
+  settings[rule.id]?.severity ?? rule.severity;
+
+export const isRuleEnabled = (rule: TokenomicsRule, settings: RuleSettings = {}) =>
+  settings[rule.id]?.enabled !== false;
+
+export const evaluateRules = (
+  context: RuleContext,
+  settings: RuleSettings = {},
+  rules: TokenomicsRule[],
+): RuleFinding[] =>
+  rules
+    .filter((rule) => isRuleEnabled(rule, settings))
+    .map((rule) => {
+      const message = rule.check(context, ruleThreshold(rule, settings));
+      return message
+        ? {
+            ruleId: rule.id,
+            name: rule.name,
+            severity: ruleSeverity(rule, settings),
+            message,
+            rationale: rule.rationale,
+          }
+        : undefined;
+    })
+    .filter((finding): finding is RuleFinding => finding !== undefined);
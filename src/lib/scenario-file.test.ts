@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  SCENARIO_FILE_FORMAT,
+  SCENARIO_FILE_VERSION,
+  createScenarioFile,
+  parseScenarioFile,
+  serializeScenarioFile,
+} from "./scenario-file";
+import { DEFAULT_SCENARIO } from "./tokenomics";
+
+const omit = (value: object, ...keys: string[]) =>
+  Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+
+const errorsOf = (file: unknown) => {
+  const result = parseScenarioFile(JSON.stringify(file));
+  return "errors" in result ? result.errors : [];
+};
+
+describe("parseScenarioFile", () => {
+  it("reads back an exported file unchanged", () => {
+    const file = createScenarioFile("Base case", DEFAULT_SCENARIO);
+    expect(parseScenarioFile(serializeScenarioFile(file))).toEqual({
+      name: "Base case",
+      scenario: DEFAULT_SCENARIO,
+    });
+  });
+
+  it("reports missing fields instead of filling them in", () => {
+    const errors = errorsOf({
+      ...omit(DEFAULT_SCENARIO, "totalSupply", "initialTokenPrice"),
+      distribution: {
+        ...DEFAULT_SCENARIO.distribution,
+        publicSale: omit(DEFAULT_SCENARIO.distribution.publicSale, "tge", "duration", "cliff"),
+      },
+      emissions: 42,
+      burns: null,
+    });
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        "scenario.totalSupply is missing",
+        "scenario.initialTokenPrice is missing",
+        "distribution.publicSale.tge is missing",
+        "distribution.publicSale.duration is missing",
+        "distribution.publicSale.cliff is missing",
+        "scenario.emissions must be an object",
+        "scenario.burns must be an object",
+      ]),
+    );
+  });
+
+  it("reports a mistyped section by its type", () => {
+    const errors = errorsOf({ ...DEFAULT_SCENARIO, liquidity: ["liquidityPool"] });
+    expect(errors).toEqual(["scenario.liquidity must be an object"]);
+  });
+
+  it("rejects null categories without throwing", () => {
+    const errors = errorsOf({
+      ...DEFAULT_SCENARIO,
+      distribution: { ...DEFAULT_SCENARIO.distribution, treasury: null },
+    });
+    expect(errors).toContain("distribution.treasury must be an object");
+  });
+
+  it("rejects newer and unknown formats", () => {
+    const file = createScenarioFile("Base case", DEFAULT_SCENARIO);
+    expect(errorsOf({ ...file, version: SCENARIO_FILE_VERSION + 1 })).toHaveLength(1);
+    expect(errorsOf({ ...file, format: "other/format" })).toEqual([
+      `Unsupported format "other/format", expected "${SCENARIO_FILE_FORMAT}".`,
+    ]);
+  });
+
+  it("gives built-in categories their roles when migrating version 1 files", () => {
+    const distribution = Object.fromEntries(
+      Object.entries(DEFAULT_SCENARIO.distribution).map(([category, data]) => [
+        category,
+        omit(data, "role"),
+      ]),
+    );
+    const result = parseScenarioFile(
+      JSON.stringify({
+        ...createScenarioFile("Old", DEFAULT_SCENARIO),
+        version: 1,
+        scenario: { ...DEFAULT_SCENARIO, distribution },
+      }),
+    );
+
+    expect(result).toEqual({ name: "Old", scenario: DEFAULT_SCENARIO });
+  });
+
+  it("reads bare scenarios as version 1", () => {
+    const result = parseScenarioFile(
+      JSON.stringify({
+        ...DEFAULT_SCENARIO,
+        distribution: {
+          ...DEFAULT_SCENARIO.distribution,
+          publicSale: omit(DEFAULT_SCENARIO.distribution.publicSale, "role"),
+        },
+      }),
+    );
+
+    expect(result).toEqual({ name: "Imported scenario", scenario: DEFAULT_SCENARIO });
+  });
+});
@@ -0,0 +1,470 @@
+// Scenario files: a versioned JSON document meant to be committed next to a
+// project and diffed in code review.
+//
+//   {
+//     "format": "tokenomics-planner/scenario",
+//     "version": 2,
+//     "name": "Base case",
+//     "exportedAt": "2025-01-01T00:00:00.000Z",
+//     "scenario": {
+//       "totalSupply": 1000000000,
+//       "decimals": 18,                   // optional, whole number 0-36
+//       "initialTokenPrice": 0.001,
+//       "tgeDate": "2025-01-15",          // optional, YYYY-MM-DD
+//       "alignToMonthEnd": false,         // optional
+//       "horizonMonths": 48,              // optional, whole months
+//       "distribution": {
+//         "<category key>": {
+//           "name", "color", "percentage", "tge", "duration", "cliff",
+//           "cliffRelease", "curve", "milestones": [{ "month", "percent" }],
+//           "tokenPrice",                 // optional, marks a funding round
+//           "role",                       // optional: team, investors,
+//                                         // public or other (version 2)
+//           "locked"                      // optional, kept out of rebalancing
+//         }
+//       },
+//       "emissions": { "model", "annualRate", "decayRate", "minRate",
+//                      "halvingMonths", "maxSupply" (optional) },
+//       "burns": { "monthlyAmount", "monthlyCirculatingPercent",
+//                  "oneOff": [{ "month", "amount" }] },
+//       "liquidity": { "category", "pairedAmount", "pairedSymbol",
+//                      "pairedPriceUsd" },
+//       "rules": {                        // optional health rule overrides
+//         "<rule id>": { "enabled", "threshold", "severity" }
+//       },
+//       "rebalance": { "strategy",        // optional: proportional, reserve,
+//                      "reserve" }        // largest or refuse
+//     }
+//   }
+//
+// Percentages are 0-100, durations and cliffs are months. Unknown fields are
+// rejected rather than dropped so typos don't silently fall back to defaults.
+// Older versions are upgraded through MIGRATIONS before validation; nothing
+// else is filled in, so a missing or mistyped field is always reported.
+
+import {
+  ALLOCATION_TOLERANCE,
+  DEFAULT_SCENARIO,
+  TokenomicsScenario,
+  totalAllocation,
+} from "./tokenomics";
+import { parseISODate } from "./calendar";
+import { RULE_SEVERITIES } from "./rules";
+import { findRule } from "./built-in-rules";
+import { fileSlug } from "./download";
+import { MAX_DECIMALS } from "./token-units";
+
+export const SCENARIO_FILE_FORMAT = "tokenomics-planner/scenario";
+export const SCENARIO_FILE_VERSION = 2;
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  scenario: TokenomicsScenario;
+}
+
+export type ScenarioFileImport =
+  | { name: string; scenario: TokenomicsScenario }
+  | { errors: string[] };
+
+const CLIFF_RELEASES = ["accrued", "linear"];
+const VESTING_CURVES = ["linear", "monthly", "quarterly", "exponential", "milestones"];
+const EMISSION_MODELS = ["none", "fixed", "decaying", "halving"];
+const CATEGORY_ROLES = ["team", "investors", "public", "other"];
+const REBALANCE_STRATEGIES = ["proportional", "reserve", "largest", "refuse"];
+
+type RawFile = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a file from the keyed version to the next one; add an
+// entry whenever SCENARIO_FILE_VERSION is bumped. Migrations only fill fields
+// the older version couldn't have, and leave malformed values for validation.
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {
+  // Version 2 added category roles: the built-in categories keep theirs
+  1: (file) => {
+    const { scenario } = file;
+    if (!isObject(scenario) || !isObject(scenario.distribution)) {
+      return { ...file, version: 2 };
+    }
+    const distribution = Object.fromEntries(
+      Object.entries(scenario.distribution).map(([category, data]) => {
+        const role = DEFAULT_SCENARIO.distribution[category]?.role;
+        return [
+          category,
+          isObject(data) && data.role === undefined && role ? { ...data, role } : data,
+        ];
+      }),
+    );
+    return { ...file, version: 2, scenario: { ...scenario, distribution } };
+  },
+};
+
+// Files without an envelope are bare scenarios, as kept in local storage
+// since before roles existed, so they are read as version 1
+const wrapBareScenario = (scenario: RawFile): RawFile => ({
+  format: SCENARIO_FILE_FORMAT,
+  version: 1,
+  name: "Imported scenario",
+  exportedAt: new Date().toISOString(),
+  scenario,
+});
+
+export const createScenarioFile = (
+  name: string,
+  scenario: TokenomicsScenario,
+): ScenarioFile => ({
+  format: SCENARIO_FILE_FORMAT,
+  version: SCENARIO_FILE_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  scenario,
+});
+
+export const serializeScenarioFile = (file: ScenarioFile) =>
+  `${JSON.stringify(file, null, 2)}\n`;
+
+export const scenarioFileName = (name: string) =>
+  `${fileSlug(name)}.tokenomics.json`;
+
+// Collects every problem in one pass so a file can be fixed in one go
+const createValidator = () => {
+  const errors: string[] = [];
+
+  const checkFields = (
+    value: Record<string, unknown>,
+    path: string,
+    required: string[],
+    optional: string[] = [],
+  ) => {
+    required
+      .filter((field) => value[field] === undefined)
+      .forEach((field) => errors.push(`${path}.${field} is missing`));
+    Object.keys(value)
+      .filter((field) => !required.includes(field) && !optional.includes(field))
+      .forEach((field) => errors.push(`${path}.${field} is not a known field`));
+  };
+
+  const checkNumber = (
+    value: unknown,
+    path: string,
+    { min = 0, max = Infinity, integer = false, exclusiveMin = false } = {},
+  ) => {
+    if (value === undefined) return;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${path} must be a number`);
+    } else if (exclusiveMin ? value <= min : value < min) {
+      errors.push(
+        `${path} must be ${exclusiveMin ? "greater than" : "at least"} ${min}, got ${value}`,
+      );
+    } else if (value > max) {
+      errors.push(`${path} must be at most ${max}, got ${value}`);
+    } else if (integer && !Number.isInteger(value)) {
+      errors.push(`${path} must be a whole number, got ${value}`);
+    }
+  };
+
+  const checkOneOf = (value: unknown, path: string, options: string[]) => {
+    if (value !== undefined && !options.includes(value as string)) {
+      errors.push(`${path} must be one of ${options.join(", ")}`);
+    }
+  };
+
+  const checkString = (value: unknown, path: string, { allowEmpty = false } = {}) => {
+    if (value === undefined) return;
+    if (typeof value !== "string") {
+      errors.push(`${path} must be a string`);
+    } else if (!allowEmpty && !value.trim()) {
+      errors.push(`${path} must be a non-empty string`);
+    }
+  };
+
+  const checkObject = (
+    value: unknown,
+    path: string,
+  ): value is Record<string, unknown> => {
+    if (!isObject(value)) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkArray = (value: unknown, path: string) => {
+    if (!Array.isArray(value)) {
+      if (value !== undefined) errors.push(`${path} must be a list`);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    errors,
+    checkFields,
+    checkNumber,
+    checkOneOf,
+    checkString,
+    checkObject,
+    checkArray,
+  };
+};
+
+// Every problem with a scenario, empty when it can be opened. Imported files
+// must be finished plans. A `draft` is any state the planner can be left in,
+// as carried by share links and the report: only what the engine needs to
+// compute is checked, so an unallocated remainder, empty names, zero prices
+// and references to deleted categories pass.
+export const validateScenario = (scenario: unknown, { draft = false } = {}) => {
+  const v = createValidator();
+  if (!v.checkObject(scenario, "scenario")) return v.errors;
+
+  v.checkFields(
+    scenario,
+    "scenario",
+    ["totalSupply", "initialTokenPrice", "distribution", "emissions", "burns", "liquidity"],
+    ["decimals", "tgeDate", "alignToMonthEnd", "horizonMonths", "rules", "rebalance"],
+  );
+  v.checkNumber(scenario.totalSupply, "scenario.totalSupply", { exclusiveMin: true });
+  v.checkNumber(scenario.decimals, "scenario.decimals", {
+    max: MAX_DECIMALS,
+    integer: true,
+  });
+  v.checkNumber(scenario.initialTokenPrice, "scenario.initialTokenPrice");
+  v.checkNumber(scenario.horizonMonths, "scenario.horizonMonths", {
+    min: 1,
+    integer: true,
+  });
+  if (
+    scenario.tgeDate !== undefined &&
+    !parseISODate(scenario.tgeDate as string)
+  ) {
+    v.errors.push("scenario.tgeDate must be a date formatted as YYYY-MM-DD");
+  }
+  if (
+    scenario.alignToMonthEnd !== undefined &&
+    typeof scenario.alignToMonthEnd !== "boolean"
+  ) {
+    v.errors.push("scenario.alignToMonthEnd must be true or false");
+  }
+
+  const { distribution, emissions, burns, liquidity, rules, rebalance } = scenario;
+
+  if (v.checkObject(distribution, "scenario.distribution")) {
+    const categories = Object.entries(distribution);
+    if (categories.length === 0) {
+      v.errors.push("scenario.distribution must have at least one category");
+    }
+
+    categories.forEach(([key, data]) => {
+      const path = `distribution.${key}`;
+      if (!v.checkObject(data, path)) return;
+
+      v.checkFields(
+        data,
+        path,
+        ["name", "color", "percentage", "tge", "duration", "cliff", "cliffRelease", "curve", "milestones"],
+        ["tokenPrice", "role", "locked"],
+      );
+      v.checkString(data.name, `${path}.name`, { allowEmpty: draft });
+      v.checkString(data.color, `${path}.color`);
+      v.checkNumber(data.percentage, `${path}.percentage`, { max: 100 });
+      v.checkNumber(data.tge, `${path}.tge`, { max: 100 });
+      v.checkNumber(data.duration, `${path}.duration`);
+      v.checkNumber(data.cliff, `${path}.cliff`);
+      v.checkOneOf(data.cliffRelease, `${path}.cliffRelease`, CLIFF_RELEASES);
+      v.checkOneOf(data.curve, `${path}.curve`, VESTING_CURVES);
+      v.checkNumber(data.tokenPrice, `${path}.tokenPrice`, { exclusiveMin: !draft });
+      v.checkOneOf(data.role, `${path}.role`, CATEGORY_ROLES);
+      if (data.locked !== undefined && typeof data.locked !== "boolean") {
+        v.errors.push(`${path}.locked must be true or false`);
+      }
+
+      if (v.checkArray(data.milestones, `${path}.milestones`)) {
+        (data.milestones as unknown[]).forEach((milestone, index) => {
+          const milestonePath = `${path}.milestones[${index}]`;
+          if (!v.checkObject(milestone, milestonePath)) return;
+          v.checkFields(milestone, milestonePath, ["month", "percent"]);
+          v.checkNumber(milestone.month, `${milestonePath}.month`);
+          v.checkNumber(milestone.percent, `${milestonePath}.percent`, { max: 100 });
+        });
+      }
+    });
+
+    const percentages = categories.map(([, data]) =>
+      isObject(data) ? data.percentage : undefined,
+    );
+    if (!draft && percentages.every((percentage) => typeof percentage === "number")) {
+      const total = totalAllocation(
+        distribution as TokenomicsScenario["distribution"],
+      );
+      if (Math.abs(total - 100) > ALLOCATION_TOLERANCE) {
+        v.errors.push(
+          `Category percentages must sum to 100%, got ${Number(total.toFixed(4))}%`,
+        );
+      }
+    }
+  }
+
+  if (v.checkObject(emissions, "scenario.emissions")) {
+    v.checkFields(
+      emissions,
+      "emissions",
+      ["model", "annualRate", "decayRate", "minRate", "halvingMonths"],
+      ["maxSupply"],
+    );
+    v.checkOneOf(emissions.model, "emissions.model", EMISSION_MODELS);
+    v.checkNumber(emissions.annualRate, "emissions.annualRate");
+    v.checkNumber(emissions.decayRate, "emissions.decayRate", { max: 100 });
+    v.checkNumber(emissions.minRate, "emissions.minRate");
+    v.checkNumber(emissions.halvingMonths, "emissions.halvingMonths", {
+      exclusiveMin: !draft,
+    });
+    v.checkNumber(emissions.maxSupply, "emissions.maxSupply", {
+      exclusiveMin: !draft,
+    });
+  }
+
+  if (v.checkObject(burns, "scenario.burns")) {
+    v.checkFields(burns, "burns", ["monthlyAmount", "monthlyCirculatingPercent", "oneOff"]);
+    v.checkNumber(burns.monthlyAmount, "burns.monthlyAmount");
+    v.checkNumber(burns.monthlyCirculatingPercent, "burns.monthlyCirculatingPercent", {
+      max: 100,
+    });
+    if (v.checkArray(burns.oneOff, "burns.oneOff")) {
+      (burns.oneOff as unknown[]).forEach((burn, index) => {
+        const path = `burns.oneOff[${index}]`;
+        if (!v.checkObject(burn, path)) return;
+        v.checkFields(burn, path, ["month", "amount"]);
+        v.checkNumber(burn.month, `${path}.month`, { integer: true });
+        v.checkNumber(burn.amount, `${path}.amount`);
+      });
+    }
+  }
+
+  if (v.checkObject(liquidity, "scenario.liquidity")) {
+    v.checkFields(liquidity, "liquidity", [
+      "category",
+      "pairedAmount",
+      "pairedSymbol",
+      "pairedPriceUsd",
+    ]);
+    v.checkString(liquidity.category, "liquidity.category", { allowEmpty: draft });
+    if (
+      !draft &&
+      isObject(distribution) &&
+      typeof liquidity.category === "string" &&
+      !(liquidity.category in distribution)
+    ) {
+      v.errors.push(
+        `liquidity.category refers to unknown category "${liquidity.category}"`,
+      );
+    }
+    v.checkNumber(liquidity.pairedAmount, "liquidity.pairedAmount");
+    v.checkString(liquidity.pairedSymbol, "liquidity.pairedSymbol", {
+      allowEmpty: draft,
+    });
+    v.checkNumber(liquidity.pairedPriceUsd, "liquidity.pairedPriceUsd");
+  }
+
+  if (rules !== undefined && v.checkObject(rules, "scenario.rules")) {
+    Object.entries(rules).forEach(([id, setting]) => {
+      const path = `rules.${id}`;
+      const rule = findRule(id);
+      if (!rule) {
+        v.errors.push(`${path} is not a known rule`);
+        return;
+      }
+      if (!v.checkObject(setting, path)) return;
+
+      v.checkFields(setting, path, [], ["enabled", "threshold", "severity"]);
+      if (setting.enabled !== undefined && typeof setting.enabled !== "boolean") {
+        v.errors.push(`${path}.enabled must be true or false`);
+      }
+      v.checkNumber(
+        setting.threshold,
+        `${path}.threshold`,
+        draft
+          ? { min: -Infinity }
+          : { min: rule.threshold.min, max: rule.threshold.max },
+      );
+      v.checkOneOf(setting.severity, `${path}.severity`, RULE_SEVERITIES);
+    });
+  }
+
+  if (rebalance !== undefined && v.checkObject(rebalance, "scenario.rebalance")) {
+    v.checkFields(rebalance, "rebalance", ["strategy"], ["reserve"]);
+    v.checkOneOf(rebalance.strategy, "rebalance.strategy", REBALANCE_STRATEGIES);
+    v.checkString(rebalance.reserve, "rebalance.reserve");
+    if (
+      !draft &&
+      isObject(distribution) &&
+      typeof rebalance.reserve === "string" &&
+      !(rebalance.reserve in distribution)
+    ) {
+      v.errors.push(
+        `rebalance.reserve refers to unknown category "${rebalance.reserve}"`,
+      );
+    }
+  }
+
+  return v.errors;
+};
+
+export const parseScenarioFile = (text: string): ScenarioFileImport => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { errors: ["The file is not valid JSON."] };
+  }
+  if (!isObject(file)) {
+    return { errors: ["The file does not contain a scenario."] };
+  }
+
+  if (file.format === undefined) {
+    file = wrapBareScenario(file);
+  } else if (file.format !== SCENARIO_FILE_FORMAT) {
+    return {
+      errors: [`Unsupported format "${file.format}", expected "${SCENARIO_FILE_FORMAT}".`],
+    };
+  }
+
+  let migrated = file as RawFile;
+  if (
+    typeof migrated.version !== "number" ||
+    !Number.isInteger(migrated.version) ||
+    migrated.version < 1
+  ) {
+    return { errors: ["version must be a whole number of at least 1."] };
+  }
+  if (migrated.version > SCENARIO_FILE_VERSION) {
+    return {
+      errors: [
+        `The file is version ${migrated.version}; this planner reads up to version ${SCENARIO_FILE_VERSION}.`,
+      ],
+    };
+  }
+  while ((migrated.version as number) < SCENARIO_FILE_VERSION) {
+    const migrate = MIGRATIONS[migrated.version as number];
+    if (!migrate) {
+      return {
+        errors: [`Version ${migrated.version} files can no longer be imported.`],
+      };
+    }
+    migrated = migrate(migrated);
+  }
+
+  const errors = validateScenario(migrated.scenario);
+  if (errors.length > 0) return { errors };
+
+  return {
+    name:
+      typeof migrated.name === "string" && migrated.name.trim()
+        ? migrated.name.trim()
+        : "Imported scenario",
+    scenario: migrated.scenario as TokenomicsScenario,
+  };
+};
@@ -0,0 +1,100 @@
+// Named scenarios persisted in the browser's localStorage. Every function
+// degrades to in-memory defaults where storage is unavailable (SSR, private
+// browsing), so callers never need to guard.
+
+import {
+  DEFAULT_SCENARIO,
+  TokenomicsScenario,
+  withScenarioDefaults,
+} from "./tokenomics";
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  scenario: TokenomicsScenario;
+  updatedAt: string;
+}
+
+export interface ScenarioStore {
+  activeId: string;
+  autosave: boolean;
+  scenarios: SavedScenario[];
+}
+
+const STORAGE_KEY = "tokenomics-planner:scenarios";
+
+export const createScenarioId = () =>
+  `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createSavedScenario = (
+  name: string,
+  scenario: TokenomicsScenario = DEFAULT_SCENARIO,
+): SavedScenario => ({
+  id: createScenarioId(),
+  name,
+  // Deep copy so saved scenarios never share nested objects
+  scenario: JSON.parse(JSON.stringify(scenario)),
+  updatedAt: new Date().toISOString(),
+});
+
+export const createDefaultStore = (): ScenarioStore => {
+  const base = createSavedScenario("Base case");
+  return { activeId: base.id, autosave: true, scenarios: [base] };
+};
+
+// The store with the active saved scenario replaced by `scenario`
+export const storeActiveScenario = (
+  store: ScenarioStore,
+  scenario: TokenomicsScenario,
+): ScenarioStore => ({
+  ...store,
+  scenarios: store.scenarios.map((saved) =>
+    saved.id === store.activeId
+      ? {
+          ...saved,
+          scenario: JSON.parse(JSON.stringify(scenario)),
+          updatedAt: new Date().toISOString(),
+        }
+      : saved,
+  ),
+});
+
+export const isSameScenario = (a: TokenomicsScenario, b: TokenomicsScenario) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const loadScenarioStore = (): ScenarioStore => {
+  if (typeof window === "undefined") return createDefaultStore();
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return createDefaultStore();
+
+    const store = JSON.parse(raw) as ScenarioStore;
+    if (!Array.isArray(store.scenarios) || store.scenarios.length === 0) {
+      return createDefaultStore();
+    }
+
+    // Fields added after a scenario was saved fall back to their defaults
+    const scenarios = store.scenarios.map((saved) => ({
+      ...saved,
+      scenario: withScenarioDefaults(saved.scenario),
+    }));
+    const activeId = scenarios.some((saved) => saved.id === store.activeId)
+      ? store.activeId
+      : scenarios[0].id;
+
+    return { activeId, autosave: store.autosave !== false, scenarios };
+  } catch {
+    return createDefaultStore();
+  }
+};
+
+export const saveScenarioStore = (store: ScenarioStore) => {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Quota exceeded or storage disabled; keep working in memory
+  }
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { sampleSchedule, scheduleToCsv } from "./schedule-export";
+import { DEFAULT_VESTING, TokenomicsScenario, generateUnlockSchedule } from "./tokenomics";
+
+const scenario: TokenomicsScenario = {
+  totalSupply: 1_000,
+  initialTokenPrice: 0.5,
+  distribution: {
+    team: {
+      ...DEFAULT_VESTING,
+      name: 'Team, "core"',
+      color: "#45B7D1",
+      percentage: 40,
+      tge: 0,
+      duration: 3,
+    },
+    public: {
+      ...DEFAULT_VESTING,
+      name: "=SUM(A1)",
+      color: "#FF6B6B",
+      percentage: 60,
+      tge: 100,
+      duration: 0,
+    },
+  },
+};
+
+const rowsOf = (csv: string) => csv.slice(1).split("\r\n").slice(0, -1);
+
+describe("scheduleToCsv", () => {
+  const schedule = generateUnlockSchedule(scenario);
+
+  it("starts with a byte order mark and ends every row with CRLF", () => {
+    const csv = scheduleToCsv(schedule, scenario.distribution, { granularity: "monthly" });
+    expect(csv.startsWith("\uFEFFDay,Month,")).toBe(true);
+    expect(csv.endsWith("\r\n")).toBe(true);
+    expect(rowsOf(csv)).toHaveLength(schedule.length + 1);
+  });
+
+  it("quotes cells with separators or quotes and defuses formulas", () => {
+    const [header] = rowsOf(
+      scheduleToCsv(schedule, scenario.distribution, { granularity: "monthly" }),
+    );
+    expect(header).toContain('"Team, ""core"" Circulating"');
+    expect(header).toContain("'=SUM(A1) Circulating");
+  });
+
+  it("writes decimal commas between semicolon-separated cells", () => {
+    const rows = rowsOf(
+      scheduleToCsv(schedule, scenario.distribution, {
+        granularity: "monthly",
+        numberFormat: "comma",
+      }),
+    );
+    expect(rows[0].startsWith("Day;Month;")).toBe(true);
+    expect(rows[2].split(";").slice(0, 4)).toEqual(["30", "1", "133,333333", "13,3333"]);
+  });
+
+  it("adds USD columns valued at the given price", () => {
+    const rows = rowsOf(
+      scheduleToCsv(schedule, scenario.distribution, {
+        granularity: "monthly",
+        tokenPrice: 0.5,
+      }),
+    );
+    expect(rows[0].endsWith("Net Circulating %,Net Circulating USD")).toBe(true);
+    expect(rows[rows.length - 1].endsWith(",500")).toBe(true);
+  });
+});
+
+describe("sampleSchedule", () => {
+  it("keeps week starts plus the first and last days", () => {
+    const daily = generateUnlockSchedule(scenario, "daily");
+    const days = sampleSchedule(daily, "weekly").map((point) => point.day);
+    expect(days.slice(0, 3)).toEqual([0, 7, 14]);
+    expect(days.slice(-2)).toEqual([357, 360]);
+  });
+});
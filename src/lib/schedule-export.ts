@@ -0,0 +1,125 @@
+// Spreadsheet export of the unlock schedule. The CSV is written for Excel and
+// Google Sheets alike: UTF-8 with a byte order mark, CRLF line endings, plain
+// unformatted numbers and ISO dates.
+//
+// Spreadsheets read numbers with their locale's decimal separator, so there
+// is no one CSV that opens as numbers everywhere. The default "point" format
+// ("." decimals, "," between cells) suits English-language locales; "comma"
+// writes "," decimals with ";" between cells, for locales that use a decimal
+// comma, such as most of Europe.
+
+import { Distribution, UnlockSchedule } from "./tokenomics";
+
+export type ExportGranularity = "daily" | "weekly" | "monthly";
+
+export type CsvNumberFormat = "point" | "comma";
+
+export interface ScheduleExportOptions {
+  granularity: ExportGranularity;
+  // Adds USD columns valued at this price when set
+  tokenPrice?: number;
+  // Defaults to "point"
+  numberFormat?: CsvNumberFormat;
+}
+
+const SEPARATORS: Record<CsvNumberFormat, { decimal: string; cell: string }> = {
+  point: { decimal: ".", cell: "," },
+  comma: { decimal: ",", cell: ";" },
+};
+
+const DAYS_PER_WEEK = 7;
+const BYTE_ORDER_MARK = "\uFEFF";
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (
+  value: string | number | undefined,
+  { decimal, cell }: { decimal: string; cell: string },
+) => {
+  if (value === undefined) return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value).replace(".", decimal) : "";
+  }
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return text.includes(cell) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+// The first and last points are always kept so totals match the chart
+export const sampleSchedule = (
+  unlockSchedule: UnlockSchedule,
+  granularity: ExportGranularity,
+) => {
+  const last = unlockSchedule.length - 1;
+  return unlockSchedule.filter((point, index) => {
+    if (index === 0 || index === last) return true;
+    if (granularity === "weekly") return point.day % DAYS_PER_WEEK === 0;
+    if (granularity === "monthly") return Number.isInteger(point.month);
+    return true;
+  });
+};
+
+export const scheduleToCsv = (
+  unlockSchedule: UnlockSchedule,
+  distribution: Distribution,
+  { granularity, tokenPrice, numberFormat = "point" }: ScheduleExportOptions,
+) => {
+  const separators = SEPARATORS[numberFormat];
+  const categories = Object.entries(distribution);
+  const hasDates = unlockSchedule.some((point) => point.date);
+  const withUsd = tokenPrice !== undefined;
+
+  const header = [
+    "Day",
+    "Month",
+    ...(hasDates ? ["Date"] : []),
+    ...categories.flatMap(([, data]) => [
+      `${data.name} Circulating`,
+      `${data.name} Circulating %`,
+      ...(withUsd ? [`${data.name} Circulating USD`] : []),
+    ]),
+    "Emitted",
+    "Burned",
+    "Total Supply",
+    "Circulating",
+    "Circulating %",
+    "Net Circulating",
+    "Net Circulating %",
+    ...(withUsd ? ["Net Circulating USD"] : []),
+  ];
+
+  const rows = sampleSchedule(unlockSchedule, granularity).map((point) => [
+    point.day,
+    round(point.month, 4),
+    ...(hasDates ? [point.date] : []),
+    ...categories.flatMap(([category]) => {
+      const { circulating, percentCirculating } = point.categories[category];
+      return [
+        round(circulating, 6),
+        round(percentCirculating, 4),
+        ...(withUsd ? [round(circulating * tokenPrice, 2)] : []),
+      ];
+    }),
+    round(point.emitted, 6),
+    round(point.burned, 6),
+    round(point.totalSupply, 6),
+    round(point.circulating, 6),
+    round(point.percentCirculating, 4),
+    round(point.netCirculating, 6),
+    round(point.percentNetCirculating, 4),
+    ...(withUsd ? [round(point.netCirculating * tokenPrice, 2)] : []),
+  ]);
+
+  return (
+    BYTE_ORDER_MARK +
+    [header, ...rows]
+      .map((row) => row.map((value) => csvCell(value, separators)).join(separators.cell))
+      .join("\r\n") +
+    "\r\n"
+  );
+};
@@ -0,0 +1,97 @@
+// Runs heavy schedule work, like daily exports or sweeps over many
+// scenarios, in a Web Worker so the planner stays responsive while sliders
+// are dragged. Falls back to running inline where workers aren't available,
+// e.g. during server rendering.
+
+import {
+  ScheduleResolution,
+  TokenomicsMetrics,
+  TokenomicsScenario,
+  UnlockSchedule,
+  calculateMetrics,
+  generateUnlockSchedule,
+} from "./tokenomics";
+import { BUILT_IN_RULES } from "./built-in-rules";
+
+export interface ScenarioRun {
+  unlockSchedule: UnlockSchedule;
+  metrics: TokenomicsMetrics;
+}
+
+export interface ScheduleRequest {
+  id: number;
+  scenarios: TokenomicsScenario[];
+  resolution: ScheduleResolution;
+}
+
+export type ScheduleResponse =
+  | { id: number; runs: ScenarioRun[] }
+  | { id: number; error: string };
+
+// Schedule and metrics for one scenario on the calling thread, as the worker
+// computes them
+export const evaluateScenario = (
+  scenario: TokenomicsScenario,
+  resolution: ScheduleResolution,
+): ScenarioRun => {
+  const unlockSchedule = generateUnlockSchedule(scenario, resolution);
+  return {
+    unlockSchedule,
+    metrics: calculateMetrics(scenario, unlockSchedule, BUILT_IN_RULES),
+  };
+};
+
+interface PendingRequest {
+  resolve: (runs: ScenarioRun[]) => void;
+  reject: (error: Error) => void;
+}
+
+const pending = new Map<number, PendingRequest>();
+let nextId = 0;
+let worker: Worker | undefined;
+
+const getWorker = () => {
+  if (typeof Worker === "undefined") return undefined;
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./schedule-worker.ts", import.meta.url));
+  worker.onmessage = ({ data }: MessageEvent<ScheduleResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if ("error" in data) request.reject(new Error(data.error));
+    else request.resolve(data.runs);
+  };
+  // A crashed worker fails everything in flight; the next run starts a new one
+  worker.onerror = (event) => {
+    event.preventDefault();
+    pending.forEach(({ reject }) =>
+      reject(new Error(event.message || "Schedule worker failed")),
+    );
+    pending.clear();
+    worker.terminate();
+    worker = undefined;
+  };
+  return worker;
+};
+
+// Schedules and metrics for each scenario, in order. The worker answers
+// requests in the order they were made.
+export const runScenarios = (
+  scenarios: TokenomicsScenario[],
+  resolution: ScheduleResolution = "monthly",
+): Promise<ScenarioRun[]> => {
+  const target = getWorker();
+  if (!target) {
+    return new Promise((resolve) =>
+      resolve(scenarios.map((scenario) => evaluateScenario(scenario, resolution))),
+    );
+  }
+
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: ScheduleRequest = { id, scenarios, resolution };
+    target.postMessage(request);
+  });
+};
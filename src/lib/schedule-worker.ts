@@ -0,0 +1,25 @@
+// Worker side of schedule-runner: evaluates scenarios off the main thread.
+// Schedules hold bigints, which structured cloning passes through as is.
+
+import { calculateMetrics, generateUnlockSchedule } from "./tokenomics";
+import { BUILT_IN_RULES } from "./built-in-rules";
+import type { ScheduleRequest, ScheduleResponse } from "./schedule-runner";
+
+const context = self as unknown as Worker;
+
+context.onmessage = ({ data }: MessageEvent<ScheduleRequest>) => {
+  const { id, scenarios, resolution } = data;
+  let response: ScheduleResponse;
+  try {
+    response = {
+      id,
+      runs: scenarios.map((scenario) => {
+        const unlockSchedule = generateUnlockSchedule(scenario, resolution);
+        return { unlockSchedule, metrics: calculateMetrics(scenario, unlockSchedule, BUILT_IN_RULES) };
+      }),
+    };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  context.postMessage(response);
+};
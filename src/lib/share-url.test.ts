@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { decodeScenario, encodeScenario } from "./share-url";
+import { DEFAULT_SCENARIO, TokenomicsScenario } from "./tokenomics";
+
+describe("share links", () => {
+  it("round-trip a scenario", () => {
+    expect(decodeScenario(encodeScenario(DEFAULT_SCENARIO))).toEqual({
+      scenario: DEFAULT_SCENARIO,
+    });
+  });
+
+  it("round-trip unfinished plans the planner allows", () => {
+    // The liquidity pool category deleted and the allocation left at 95%
+    const distribution = Object.fromEntries(
+      Object.entries(DEFAULT_SCENARIO.distribution).filter(
+        ([category]) => category !== "liquidityPool",
+      ),
+    );
+    const draft: TokenomicsScenario = {
+      ...DEFAULT_SCENARIO,
+      distribution: {
+        ...distribution,
+        publicSale: { ...distribution.publicSale, name: "", tokenPrice: 0 },
+      },
+      emissions: { ...DEFAULT_SCENARIO.emissions, halvingMonths: 0, maxSupply: 0 },
+      liquidity: { ...DEFAULT_SCENARIO.liquidity, pairedSymbol: "" },
+      rebalance: { strategy: "reserve", reserve: "deleted" },
+      rules: { "tge-circulating": { threshold: -1 } },
+    };
+
+    expect(decodeScenario(encodeScenario(draft))).toEqual({ scenario: draft });
+  });
+
+  it("rejects links that can't be computed", () => {
+    const broken = encodeScenario({ ...DEFAULT_SCENARIO, totalSupply: -1 });
+    expect(decodeScenario(broken)).toEqual({
+      errors: ["scenario.totalSupply must be greater than 0, got -1"],
+    });
+    expect(decodeScenario("not-a-link")).toHaveProperty("errors");
+  });
+});
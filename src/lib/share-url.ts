@@ -0,0 +1,168 @@
+// Compact, versioned encoding of a whole scenario for shareable links.
+// Categories are packed as positional tuples; fields added later go on the
+// end so older links decode with defaults for whatever they lack.
+
+import {
+  CategoryRole,
+  CliffRelease,
+  DistributionData,
+  TokenomicsScenario,
+  VestingCurve,
+  withScenarioDefaults,
+} from "./tokenomics";
+import { validateScenario } from "./scenario-file";
+
+export const SHARE_PARAM = "s";
+export const SHARE_VERSION = 1;
+
+type EncodedCategory = [
+  key: string,
+  name: string,
+  color: string,
+  percentage: number,
+  tge: number,
+  duration: number,
+  cliff?: number,
+  cliffRelease?: CliffRelease,
+  curve?: VestingCurve,
+  milestones?: [month: number, percent: number][],
+  tokenPrice?: number | null,
+  role?: CategoryRole | null,
+  locked?: 1 | 0,
+];
+
+interface SharePayload
+  extends Omit<Partial<TokenomicsScenario>, "distribution"> {
+  v: number;
+  d: EncodedCategory[];
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+};
+
+const encodeCategory = (
+  key: string,
+  data: DistributionData,
+): EncodedCategory => [
+  key,
+  data.name,
+  data.color,
+  data.percentage,
+  data.tge,
+  data.duration,
+  data.cliff,
+  data.cliffRelease,
+  data.curve,
+  data.milestones.map((milestone) => [milestone.month, milestone.percent]),
+  data.tokenPrice ?? null,
+  data.role ?? null,
+  data.locked ? 1 : 0,
+];
+
+const decodeCategory = ([
+  key,
+  name,
+  color,
+  percentage,
+  tge,
+  duration,
+  cliff,
+  cliffRelease,
+  curve,
+  milestones,
+  tokenPrice,
+  role,
+  locked,
+]: EncodedCategory): [string, Partial<DistributionData>] => [
+  key,
+  Object.fromEntries(
+    Object.entries({
+      name,
+      color,
+      percentage,
+      tge,
+      duration,
+      cliff,
+      cliffRelease,
+      curve,
+      milestones: milestones?.map(([month, percent]) => ({ month, percent })),
+      tokenPrice: tokenPrice ?? undefined,
+      role: role ?? undefined,
+      locked: locked ? true : undefined,
+    }).filter(([, value]) => value !== undefined),
+  ),
+];
+
+export const encodeScenario = (scenario: TokenomicsScenario) => {
+  const { distribution, ...rest } = scenario;
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    ...rest,
+    d: Object.entries(distribution).map(([key, data]) =>
+      encodeCategory(key, data),
+    ),
+  };
+  return toBase64Url(JSON.stringify(payload));
+};
+
+export type SharedScenario = { scenario: TokenomicsScenario } | { errors: string[] };
+
+export const decodeScenario = (encoded: string): SharedScenario => {
+  let payload: SharePayload;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return { errors: ["The shared link is malformed or truncated."] };
+  }
+  if (typeof payload !== "object" || payload === null) {
+    return { errors: ["The shared link does not contain a scenario."] };
+  }
+
+  const { v, d, ...rest } = payload;
+  if (typeof v !== "number" || !Array.isArray(d)) {
+    return { errors: ["The shared link does not contain a scenario."] };
+  }
+  if (v > SHARE_VERSION) {
+    return {
+      errors: ["The shared link was made with a newer version of the planner."],
+    };
+  }
+
+  let scenario: TokenomicsScenario;
+  try {
+    scenario = withScenarioDefaults({
+      ...rest,
+      distribution: Object.fromEntries(
+        d.map(decodeCategory),
+      ) as TokenomicsScenario["distribution"],
+    });
+  } catch {
+    // Categories that aren't tuples, or milestones that aren't pairs
+    return { errors: ["The shared link does not contain a scenario."] };
+  }
+
+  // Links can be edited by hand, so they are checked before anything computes
+  // with them, but as drafts: they carry unfinished plans from the planner
+  const errors = validateScenario(scenario, { draft: true });
+  return errors.length > 0 ? { errors } : { scenario };
+};
+
+export const buildShareUrl = (scenario: TokenomicsScenario, base: string) => {
+  const url = new URL(base);
+  url.searchParams.set(SHARE_PARAM, encodeScenario(scenario));
+  return url.toString();
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatBaseUnits,
+  fromBaseUnits,
+  percentOf,
+  percentsOf,
+  ratioOf,
+  splitProportionally,
+  toBaseUnits,
+} from "./token-units";
+
+describe("token units", () => {
+  it("converts decimal amounts without binary rounding", () => {
+    expect(toBaseUnits(0.1, 18)).toBe(BigInt("100000000000000000"));
+    expect(toBaseUnits(1e21, 0)).toBe(BigInt("1000000000000000000000"));
+    expect(formatBaseUnits(BigInt("1500000000000000000"), 18)).toBe("1.5");
+    expect(fromBaseUnits(BigInt(2500), 3)).toBe(2.5);
+  });
+
+  it("takes percentages and ratios rounding down", () => {
+    const amount = BigInt(1000);
+    expect(percentOf(amount, 33.3)).toBe(BigInt(333));
+    expect(ratioOf(amount, 1, 3)).toBe(BigInt(333));
+    expect(ratioOf(amount, 1.5, 4.5)).toBe(BigInt(333));
+  });
+
+  it("sums percentages exactly and caps them at the whole amount", () => {
+    const amount = BigInt(10) ** BigInt(20);
+    expect(percentsOf(amount, [0.1, 0.2])).toBe(BigInt(3) * BigInt(10) ** BigInt(17));
+    expect(percentsOf(amount, [60, 60])).toBe(amount);
+    expect(percentsOf(amount, [])).toBe(BigInt(0));
+  });
+
+  it("splits a total exactly, remainders to the largest shares", () => {
+    const parts = splitProportionally(BigInt(100), [1, 1, 1]);
+    expect(parts).toEqual([BigInt(34), BigInt(33), BigInt(33)]);
+    expect(splitProportionally(BigInt(10), [0, 0])).toEqual([BigInt(0), BigInt(0)]);
+  });
+});
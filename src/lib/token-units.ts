@@ -0,0 +1,109 @@
+// Exact token amounts in base units (value × 10^decimals) as bigints, for
+// output that has to match on-chain arithmetic to the last unit.
+
+export const DEFAULT_DECIMALS = 18;
+export const MAX_DECIMALS = 36;
+
+const TEN = BigInt(10);
+const HUNDRED = BigInt(100);
+
+const pow10 = (exponent: number) => TEN ** BigInt(exponent);
+
+// A finite number as an exact fraction `digits / 10^scale` of its shortest
+// decimal representation, so 0.1 is 1/10 rather than its binary neighbour
+const toFraction = (value: number) => {
+  if (!Number.isFinite(value)) {
+    throw new Error(`${value} is not a finite amount`);
+  }
+
+  const [mantissa, exponentPart] = String(value).split("e");
+  const exponent = Number(exponentPart ?? 0);
+  const [whole, fraction = ""] = mantissa.split(".");
+  const digits = BigInt(`${whole}${fraction}`);
+  const scale = fraction.length - exponent;
+
+  return scale >= 0
+    ? { digits, scale }
+    : { digits: digits * pow10(-scale), scale: 0 };
+};
+
+// Rounds down to whole base units
+export const toBaseUnits = (value: number, decimals: number) => {
+  const { digits, scale } = toFraction(value);
+  return (digits * pow10(decimals)) / pow10(scale);
+};
+
+export const formatBaseUnits = (amount: bigint, decimals: number) => {
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+// `percent` (0-100) of `amount`, rounded down
+export const percentOf = (amount: bigint, percent: number) => {
+  const { digits, scale } = toFraction(percent);
+  return (amount * digits) / (HUNDRED * pow10(scale));
+};
+
+// The sum of `percents` (0-100 each) of `amount`, capped at the whole amount
+// and rounded down once, so cumulative releases never drift
+export const percentsOf = (amount: bigint, percents: number[]) => {
+  const fractions = percents.map(toFraction);
+  const scale = Math.max(0, ...fractions.map((fraction) => fraction.scale));
+  const digits = fractions.reduce(
+    (sum, fraction) => sum + fraction.digits * pow10(scale - fraction.scale),
+    BigInt(0),
+  );
+  const whole = HUNDRED * pow10(scale);
+  return (amount * (digits < whole ? digits : whole)) / whole;
+};
+
+// `amount` × `numerator` / `denominator`, rounded down
+export const ratioOf = (amount: bigint, numerator: number, denominator: number) => {
+  const top = toFraction(numerator);
+  const bottom = toFraction(denominator);
+  return (
+    (amount * top.digits * pow10(bottom.scale)) / (bottom.digits * pow10(top.scale))
+  );
+};
+
+// `fraction` (0-1) of `amount`, rounded down; only as exact as `fraction`
+export const fractionOf = (amount: bigint, fraction: number) => {
+  const { digits, scale } = toFraction(fraction);
+  return (amount * digits) / pow10(scale);
+};
+
+// Base units as a plain token number for charts and display; not exact
+export const fromBaseUnits = (amount: bigint, decimals: number) =>
+  Number(amount) / 10 ** decimals;
+
+// Splits `total` in proportion to `weights` so the parts sum to exactly
+// `total`; units lost to rounding go to the largest remainders first
+export const splitProportionally = (total: bigint, weights: number[]) => {
+  const fractions = weights.map(toFraction);
+  const scale = Math.max(0, ...fractions.map((fraction) => fraction.scale));
+  const scaled = fractions.map(
+    ({ digits, scale: own }) => digits * pow10(scale - own),
+  );
+  const weightTotal = scaled.reduce((sum, weight) => sum + weight, BigInt(0));
+  if (weightTotal <= BigInt(0)) return weights.map(() => BigInt(0));
+
+  const parts = scaled.map((weight) => (total * weight) / weightTotal);
+  const remainders = scaled.map((weight) => (total * weight) % weightTotal);
+  let leftover = total - parts.reduce((sum, part) => sum + part, BigInt(0));
+
+  const byRemainder = remainders
+    .map((remainder, index) => ({ remainder, index }))
+    .sort((a, b) =>
+      a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1,
+    );
+  for (const { index } of byRemainder) {
+    if (leftover <= BigInt(0)) break;
+    parts[index] += BigInt(1);
+    leftover -= BigInt(1);
+  }
+
+  return parts;
+};
@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_VESTING,
+  ScheduleResolution,
+  TokenomicsScenario,
+  applyDistributionChange,
+  calculateMetrics,
+  generateUnlockSchedule,
+} from "./tokenomics";
+import { BUILT_IN_RULES } from "./built-in-rules";
+import { toBaseUnits } from "./token-units";
+
+// 1M tokens: a team grant with a one-year cliff that releases what accrued
+// during it, an investor round with a TGE unlock and vesting that starts
+// after its cliff, and a fully unlocked public sale
+const scenario: TokenomicsScenario = {
+  totalSupply: 1_000_000,
+  initialTokenPrice: 0.1,
+  distribution: {
+    team: {
+      ...DEFAULT_VESTING,
+      name: "Team",
+      color: "#45B7D1",
+      percentage: 20,
+      tge: 0,
+      cliff: 12,
+      duration: 36,
+      cliffRelease: "accrued",
+    },
+    investors: {
+      ...DEFAULT_VESTING,
+      name: "Investors",
+      color: "#4ECDC4",
+      percentage: 30,
+      tge: 10,
+      cliff: 6,
+      duration: 18,
+      cliffRelease: "linear",
+    },
+    public: {
+      ...DEFAULT_VESTING,
+      name: "Public Sale",
+      color: "#FF6B6B",
+      percentage: 50,
+      tge: 100,
+      duration: 0,
+    },
+  },
+};
+
+const circulatingAt = (month: number, category: string) =>
+  generateUnlockSchedule(scenario)[month].categories[category].circulating;
+const baseUnitsAt = (month: number, category: string) =>
+  generateUnlockSchedule(scenario)[month].categories[category].baseUnits;
+const tokens = (amount: number) => toBaseUnits(amount, 18);
+
+describe("generateUnlockSchedule", () => {
+  it("runs to the longest vesting end, one point per month", () => {
+    const schedule = generateUnlockSchedule(scenario);
+    expect(schedule).toHaveLength(37);
+    expect(schedule.map((point) => point.month)).toEqual(
+      Array.from({ length: 37 }, (_, month) => month),
+    );
+    expect(schedule.map((point) => point.day)).toEqual(
+      Array.from({ length: 37 }, (_, month) => month * 30),
+    );
+  });
+
+  it("releases an accrued cliff in one step, then vests linearly", () => {
+    expect(baseUnitsAt(0, "team")).toBe(tokens(0));
+    expect(baseUnitsAt(11, "team")).toBe(tokens(0));
+    expect(circulatingAt(12, "team")).toBeCloseTo(200_000 / 3, 6);
+    expect(circulatingAt(24, "team")).toBeCloseTo((200_000 * 2) / 3, 6);
+    expect(baseUnitsAt(36, "team")).toBe(tokens(200_000));
+  });
+
+  it("starts linear vesting at the end of the cliff, after the TGE unlock", () => {
+    expect(baseUnitsAt(0, "investors")).toBe(tokens(30_000));
+    expect(baseUnitsAt(6, "investors")).toBe(tokens(30_000));
+    expect(baseUnitsAt(15, "investors")).toBe(tokens(165_000));
+    expect(baseUnitsAt(24, "investors")).toBe(tokens(300_000));
+    expect(baseUnitsAt(36, "investors")).toBe(tokens(300_000));
+  });
+
+  it("splits the supply exactly between unlocked and locked base units", () => {
+    const supply = tokens(scenario.totalSupply);
+    const schedule = generateUnlockSchedule(scenario, "daily");
+
+    schedule.forEach((point) => {
+      expect(point.genesisCirculatingBaseUnits + point.genesisLockedBaseUnits).toBe(
+        supply,
+      );
+    });
+    expect(schedule[schedule.length - 1].genesisCirculatingBaseUnits).toBe(supply);
+  });
+
+  it("matches the daily schedule on monthly boundaries", () => {
+    const daily = generateUnlockSchedule(scenario, "daily");
+    generateUnlockSchedule(scenario).forEach((point) => {
+      expect(daily[point.day]).toEqual(point);
+    });
+  });
+});
+
+describe("calculateMetrics", () => {
+  it("values the TGE float at the initial price", () => {
+    const metrics = calculateMetrics(scenario);
+    expect(metrics.tgeCirculating).toBe(530_000);
+    expect(metrics.tgeCirculatingPercent).toBeCloseTo(53, 10);
+    expect(metrics.initialMarketCap).toBeCloseTo(53_000, 6);
+    expect(metrics.fdv).toBeCloseTo(100_000, 6);
+    expect(metrics.fdvToMcapRatio).toBeCloseTo(1_000_000 / 530_000, 10);
+    expect(metrics.finalTotalSupply).toBe(1_000_000);
+  });
+
+  it("keeps the FDV/MCap ratio defined at a price of 0", () => {
+    const metrics = calculateMetrics({ ...scenario, initialTokenPrice: 0 });
+    expect(metrics.fdv).toBe(0);
+    expect(metrics.initialMarketCap).toBe(0);
+    expect(metrics.fdvToMcapRatio).toBeCloseTo(1_000_000 / 530_000, 10);
+  });
+
+  it("reports the same findings at every schedule resolution", () => {
+    // Public sale vested by month 12, team vesting 1% a month: 11% unlocked at
+    // month 11, but 12% on the day before month 12
+    const insiders: TokenomicsScenario = {
+      ...scenario,
+      distribution: {
+        public: { ...scenario.distribution.public, tge: 0, duration: 12, role: "public" },
+        team: {
+          ...scenario.distribution.team,
+          percentage: 50,
+          cliff: 0,
+          duration: 100,
+          role: "team",
+        },
+      },
+      rules: { "insiders-before-public": { threshold: 11.5 } },
+    };
+    const findings = (resolution: ScheduleResolution) =>
+      calculateMetrics(
+        insiders,
+        generateUnlockSchedule(insiders, resolution),
+        BUILT_IN_RULES,
+      ).findings;
+
+    expect(findings("steps")).toEqual(findings("monthly"));
+    expect(findings("daily")).toEqual(findings("monthly"));
+  });
+
+  it("only reports findings for the rules it is given", () => {
+    const schedule = generateUnlockSchedule(scenario);
+    expect(calculateMetrics(scenario, schedule).findings).toEqual([]);
+    expect(
+      calculateMetrics(scenario, schedule, BUILT_IN_RULES).findings.map(
+        (finding) => finding.ruleId,
+      ),
+    ).toContain("tge-circulating");
+  });
+});
+
+describe("applyDistributionChange", () => {
+  it("balances at the precision of a locked category", () => {
+    const { distribution } = scenario;
+    const { distribution: changed, overflow } = applyDistributionChange(
+      {
+        team: { ...distribution.team, percentage: 33.33, locked: true },
+        investors: { ...distribution.investors, percentage: 33.33 },
+        public: { ...distribution.public, percentage: 33.34 },
+      },
+      "investors",
+      "percentage",
+      50,
+      { strategy: "proportional" },
+    );
+    expect(overflow).toBe(0);
+    expect(changed.public.percentage).toBe(16.67);
+    expect(
+      Object.values(changed).reduce((sum, { percentage }) => sum + percentage, 0),
+    ).toBeCloseTo(100, 10);
+  });
+});
+
+// A single category holding the whole supply, vesting from TGE over 3 months
+const vestingScenario = (data: Partial<TokenomicsScenario["distribution"][string]>) => ({
+  ...scenario,
+  totalSupply: 1_000_000_000,
+  distribution: {
+    pool: {
+      ...DEFAULT_VESTING,
+      name: "Pool",
+      color: "#000000",
+      percentage: 100,
+      tge: 0,
+      duration: 3,
+      ...data,
+    },
+  },
+});
+
+describe("exact vesting amounts", () => {
+  it("vests linear thirds to the last base unit", () => {
+    const schedule = generateUnlockSchedule(vestingScenario({}));
+    expect(schedule[1].categories.pool.baseUnits).toBe(
+      BigInt("333333333333333333333333333"),
+    );
+    expect(schedule[2].categories.pool.baseUnits).toBe(
+      BigInt("666666666666666666666666666"),
+    );
+    expect(schedule[3].categories.pool.baseUnits).toBe(tokens(1_000_000_000));
+  });
+
+  it("releases milestones as exact cumulative percentages", () => {
+    const schedule = generateUnlockSchedule(
+      vestingScenario({
+        curve: "milestones",
+        milestones: [
+          { month: 1, percent: 0.1 },
+          { month: 2, percent: 0.2 },
+          { month: 3, percent: 99.7 },
+        ],
+      }),
+    );
+    expect(schedule[2].categories.pool.baseUnits).toBe(tokens(3_000_000));
+    expect(schedule[3].categories.pool.baseUnits).toBe(tokens(1_000_000_000));
+  });
+});
+
+describe("vesting curves", () => {
+  const unlockedByDay = (
+    data: Partial<TokenomicsScenario["distribution"][string]>,
+  ): Record<number, number> =>
+    Object.fromEntries(
+      generateUnlockSchedule(vestingScenario(data), "steps").map((point) => [
+        point.day,
+        point.categories.pool.percentCirculating,
+      ]),
+    );
+
+  it("releases monthly steps on each monthly boundary only", () => {
+    const unlocked = unlockedByDay({ curve: "monthly" });
+    expect(unlocked[29]).toBe(0);
+    expect(unlocked[30]).toBeCloseTo(100 / 3, 10);
+    expect(unlocked[59]).toBeCloseTo(100 / 3, 10);
+    expect(unlocked[60]).toBeCloseTo(200 / 3, 10);
+    expect(unlocked[90]).toBe(100);
+  });
+
+  it("releases quarterly steps every third month", () => {
+    const unlocked = unlockedByDay({ curve: "quarterly", duration: 12 });
+    expect(unlocked[60]).toBe(0);
+    expect(unlocked[89]).toBe(0);
+    expect(unlocked[90]).toBe(25);
+    expect(unlocked[179]).toBe(25);
+    expect(unlocked[180]).toBe(50);
+    expect(unlocked[360]).toBe(100);
+  });
+
+  it("front-loads the decay curve and still ends fully vested", () => {
+    const unlocked = unlockedByDay({ curve: "exponential" });
+    const linear = unlockedByDay({});
+    expect(unlocked[30]).toBeGreaterThan(linear[30]);
+    expect(unlocked[60]).toBeGreaterThan(linear[60]);
+    expect(unlocked[60] - unlocked[30]).toBeLessThan(unlocked[30]);
+    expect(unlocked[90]).toBe(100);
+  });
+
+  it("releases milestones at their months, counted from the cliff when linear", () => {
+    const unlocked = unlockedByDay({
+      curve: "milestones",
+      cliff: 1,
+      cliffRelease: "linear",
+      milestones: [
+        { month: 1, percent: 40 },
+        { month: 2, percent: 60 },
+      ],
+    });
+    expect(unlocked[59]).toBe(0);
+    expect(unlocked[60]).toBe(40);
+    expect(unlocked[89]).toBe(40);
+    expect(unlocked[90]).toBe(100);
+  });
+});
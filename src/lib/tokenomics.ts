@@ -0,0 +1,661 @@
+// Framework-free tokenomics simulation engine. Everything here is plain
+// TypeScript so the planner UI, exports, API routes and scripts all share
+// the same math.
+
+import { CalendarOptions, createCalendar, toISODate } from "./calendar";
+import {
+  DEFAULT_EMISSIONS,
+  EmissionSchedule,
+  generateEmissions,
+} from "./emissions";
+import { BurnSchedule, DEFAULT_BURNS, generateBurns } from "./burns";
+import {
+  DEFAULT_LIQUIDITY,
+  LiquidityPoolConfig,
+  createPool,
+  sellImpact,
+  UNLOCK_SELL_SHARES,
+} from "./amm";
+import { RuleFinding, RuleSettings, TokenomicsRule, evaluateRules } from "./rules";
+import {
+  DEFAULT_DECIMALS,
+  fractionOf,
+  fromBaseUnits,
+  percentOf,
+  percentsOf,
+  ratioOf,
+  splitProportionally,
+  toBaseUnits,
+} from "./token-units";
+
+// "accrued" releases everything vested during the cliff in one lump when it
+// ends, "linear" starts the vesting period from the end of the cliff.
+export type CliffRelease = "accrued" | "linear";
+
+export type VestingCurve =
+  | "linear"
+  | "monthly"
+  | "quarterly"
+  | "exponential"
+  | "milestones";
+
+// What a category is for, as read by the health rules. Categories without a
+// role are treated as "other".
+export type CategoryRole = "team" | "investors" | "public" | "other";
+
+// A custom release point: `percent` of the vesting amount unlocks once
+// `month` months of vesting have elapsed.
+export interface VestingMilestone {
+  month: number;
+  percent: number;
+}
+
+export interface DistributionData {
+  name: string;
+  color: string;
+  percentage: number;
+  tge: number;
+  duration: number;
+  cliff: number;
+  cliffRelease: CliffRelease;
+  curve: VestingCurve;
+  milestones: VestingMilestone[];
+  // Price investors paid per token; set only on funding round categories
+  tokenPrice?: number;
+  role?: CategoryRole;
+  // Locked allocations are left alone when other categories are rebalanced
+  locked?: boolean;
+}
+
+export interface Distribution {
+  [key: string]: DistributionData;
+}
+
+export type DistributionField = "percentage" | "tge" | "duration" | "cliff";
+
+// How an allocation increase that pushes the total past 100% is absorbed:
+// scaled across the unlocked categories, taken from one reserve category,
+// taken from the largest categories first, or refused outright
+export type RebalanceStrategy = "proportional" | "reserve" | "largest" | "refuse";
+
+export interface RebalanceConfig {
+  strategy: RebalanceStrategy;
+  // Category that gives up allocation under the "reserve" strategy
+  reserve?: string;
+}
+
+export interface DistributionChange {
+  distribution: Distribution;
+  // Percentage points over 100% that couldn't be absorbed; when above zero
+  // the change was refused and `distribution` is returned unchanged
+  overflow: number;
+}
+
+export interface TokenomicsScenario extends CalendarOptions {
+  // Genesis supply split by the distribution; emissions mint on top of it
+  totalSupply: number;
+  // Allocation and vesting are computed in base units of 10^-decimals tokens
+  decimals?: number;
+  initialTokenPrice: number;
+  distribution: Distribution;
+  emissions?: EmissionSchedule;
+  burns?: BurnSchedule;
+  liquidity?: LiquidityPoolConfig;
+  // Simulated months after TGE; defaults to the longest vesting end
+  horizonMonths?: number;
+  // Per-rule overrides of the built-in health rules
+  rules?: RuleSettings;
+  rebalance?: RebalanceConfig;
+}
+
+export interface CategoryUnlock {
+  circulating: number;
+  percentCirculating: number;
+  // Exact unlocked amount; `circulating` is this in tokens
+  baseUnits: bigint;
+}
+
+export interface UnlockSchedulePoint {
+  day: number;
+  // Months after TGE, fractional between monthly boundaries
+  month: number;
+  // Calendar date (YYYY-MM-DD), only when the scenario has a TGE date
+  date?: string;
+  // Genesis supply plus everything emitted so far
+  totalSupply: number;
+  emitted: number;
+  // Percentages are of `totalSupply` at this point
+  percentEmitted: number;
+  circulating: number;
+  percentCirculating: number;
+  // Burn-adjusted supply and circulating supply
+  burned: number;
+  netSupply: number;
+  percentNetSupply: number;
+  netCirculating: number;
+  percentNetCirculating: number;
+  categories: Record<string, CategoryUnlock>;
+  // Exact split of the genesis supply: unlocked category amounts and
+  // everything still vesting or unallocated always sum to the supply
+  genesisCirculatingBaseUnits: bigint;
+  genesisLockedBaseUnits: bigint;
+}
+
+export type UnlockSchedule = UnlockSchedulePoint[];
+
+// Tokens that became circulating during one month; month 0 is TGE itself
+export interface MonthlyUnlock {
+  month: number;
+  date?: string;
+  unlocked: number;
+  emitted: number;
+  categories: Record<string, number>;
+  // Net circulating supply at the end of the month, and as % of net supply
+  circulating: number;
+  percentCirculating: number;
+  previousCirculating: number;
+}
+
+export interface TokenomicsMetrics {
+  tgeCirculating: number;
+  tgeCirculatingPercent: number;
+  initialMarketCap: number;
+  fdv: number;
+  fdvToMcapRatio: number;
+  finalTotalSupply: number;
+  finalFdv: number;
+  totalBurned: number;
+  findings: RuleFinding[];
+}
+
+// Decay rate of the exponential emission curve; higher front-loads more
+const EXPONENTIAL_DECAY_RATE = 3;
+
+export const COLORS = [
+  "#FF6B6B",
+  "#4ECDC4",
+  "#45B7D1",
+  "#96CEB4",
+  "#FFEEAD",
+  "#D4A5A5",
+  "#9B59B6",
+  "#F7A072",
+  "#7BD389",
+  "#E8A0BF",
+  "#6C8EF5",
+  "#C3B091",
+];
+
+export const DEFAULT_VESTING: Omit<
+  DistributionData,
+  "name" | "color" | "percentage" | "tge" | "duration"
+> = {
+  cliff: 0,
+  cliffRelease: "linear",
+  curve: "linear",
+  milestones: [],
+};
+
+export const DEFAULT_REBALANCE: RebalanceConfig = { strategy: "proportional" };
+
+export const DEFAULT_SCENARIO: TokenomicsScenario = {
+  totalSupply: 1000000000,
+  decimals: DEFAULT_DECIMALS,
+  initialTokenPrice: 0.001,
+  distribution: {
+    publicSale: { name: "Public Sale", color: COLORS[0], percentage: 20, tge: 10, duration: 12, ...DEFAULT_VESTING, role: "public" },
+    privateRounds: { name: "Private Rounds", color: COLORS[1], percentage: 15, tge: 5, duration: 24, ...DEFAULT_VESTING, cliff: 6, curve: "monthly", tokenPrice: 0.0005, role: "investors" },
+    teamAndAdvisors: { name: "Team And Advisors", color: COLORS[2], percentage: 15, tge: 0, duration: 36, ...DEFAULT_VESTING, cliff: 12, cliffRelease: "accrued", curve: "monthly", role: "team" },
+    development: { name: "Development", color: COLORS[3], percentage: 20, tge: 0, duration: 48, ...DEFAULT_VESTING },
+    ecosystem: { name: "Ecosystem", color: COLORS[4], percentage: 15, tge: 5, duration: 36, ...DEFAULT_VESTING, curve: "exponential" },
+    treasury: { name: "Treasury", color: COLORS[5], percentage: 10, tge: 0, duration: 48, ...DEFAULT_VESTING },
+    liquidityPool: { name: "Liquidity Pool", color: COLORS[6], percentage: 5, tge: 20, duration: 24, ...DEFAULT_VESTING },
+  },
+  alignToMonthEnd: false,
+  emissions: DEFAULT_EMISSIONS,
+  burns: DEFAULT_BURNS,
+  liquidity: DEFAULT_LIQUIDITY,
+};
+
+// Fills fields missing from scenarios saved or shared before they existed
+export const withScenarioDefaults = (
+  scenario: Partial<TokenomicsScenario>,
+): TokenomicsScenario => ({
+  ...DEFAULT_SCENARIO,
+  ...scenario,
+  distribution: Object.fromEntries(
+    Object.entries(scenario.distribution ?? DEFAULT_SCENARIO.distribution).map(
+      ([category, data], index) => [
+        category,
+        // Anything but an object is left as is for validation to report
+        typeof data === "object" && data !== null
+          ? {
+              name: category,
+              color: COLORS[index % COLORS.length],
+              percentage: 0,
+              tge: 0,
+              duration: 0,
+              ...DEFAULT_VESTING,
+              ...data,
+              // Saved before roles existed: the built-in categories keep theirs
+              role: data.role ?? DEFAULT_SCENARIO.distribution[category]?.role,
+            }
+          : data,
+      ],
+    ),
+  ),
+  emissions: { ...DEFAULT_EMISSIONS, ...scenario.emissions },
+  burns: { ...DEFAULT_BURNS, ...scenario.burns },
+  liquidity: { ...DEFAULT_LIQUIDITY, ...scenario.liquidity },
+});
+
+export const totalAllocation = (distribution: Distribution) =>
+  Object.values(distribution).reduce((sum, data) => sum + data.percentage, 0);
+
+// Totals this close to 100% count as fully allocated, since rebalanced
+// sliders can leave float dust in the percentages
+export const ALLOCATION_TOLERANCE = 0.01;
+
+// The genesis supply in base units, split across categories in proportion
+// to their percentages with rounding units going to the largest remainders.
+// Fully allocated plans reconcile to the supply exactly; otherwise the
+// unallocated share is held back.
+export const categoryAllocations = (
+  scenario: TokenomicsScenario,
+): Record<string, bigint> => {
+  const { totalSupply, distribution, decimals = DEFAULT_DECIMALS } = scenario;
+  const entries = Object.entries(distribution);
+  const unallocated = 100 - totalAllocation(distribution);
+  const amounts = splitProportionally(toBaseUnits(totalSupply, decimals), [
+    ...entries.map(([, data]) => data.percentage),
+    unallocated > ALLOCATION_TOLERANCE ? unallocated : 0,
+  ]);
+  return Object.fromEntries(
+    entries.map(([category], index) => [category, amounts[index]]),
+  );
+};
+
+// Category allocations in tokens, for display and pool sizing
+export const categoryTokens = (scenario: TokenomicsScenario) =>
+  Object.fromEntries(
+    Object.entries(categoryAllocations(scenario)).map(([category, amount]) => [
+      category,
+      fromBaseUnits(amount, scenario.decimals ?? DEFAULT_DECIMALS),
+    ]),
+  );
+
+export const calculateFdv = ({ totalSupply, initialTokenPrice }: TokenomicsScenario) =>
+  Math.max(0, totalSupply * initialTokenPrice);
+
+// Month after TGE at which a category is fully unlocked
+export const vestingEndMonth = (data: DistributionData) => {
+  const vestingStart = data.cliffRelease === "linear" ? data.cliff : 0;
+  const vestingLength =
+    data.curve === "milestones"
+      ? Math.max(0, ...data.milestones.map((milestone) => milestone.month))
+      : data.duration;
+  return Math.max(data.cliff, vestingStart + vestingLength);
+};
+
+export const defaultHorizonMonths = (distribution: Distribution) =>
+  Math.max(12, ...Object.values(distribution).map(vestingEndMonth));
+
+export const resolveHorizonMonths = ({
+  horizonMonths,
+  distribution,
+}: TokenomicsScenario) =>
+  horizonMonths && horizonMonths > 0
+    ? Math.round(horizonMonths)
+    : defaultHorizonMonths(distribution);
+
+// Base units of the post-TGE `amount` released after `vestedMonths` months
+// of vesting, according to the category's curve, rounded down. Every curve
+// but the decay is a ratio of month counts or percentages, so it is exact.
+const vestedAmount = (data: DistributionData, amount: bigint, vestedMonths: number) => {
+  const { duration } = data;
+
+  if (data.curve === "milestones") {
+    return percentsOf(
+      amount,
+      data.milestones
+        .filter((milestone) => milestone.month <= vestedMonths)
+        .map((milestone) => milestone.percent),
+    );
+  }
+
+  if (vestedMonths <= 0) return BigInt(0);
+  if (vestedMonths >= duration) return amount;
+
+  switch (data.curve) {
+    case "monthly":
+      return ratioOf(amount, Math.floor(vestedMonths), duration);
+    case "quarterly":
+      return ratioOf(amount, Math.floor(vestedMonths / 3) * 3, duration);
+    case "exponential":
+      return fractionOf(
+        amount,
+        (1 - Math.exp((-EXPONENTIAL_DECAY_RATE * vestedMonths) / duration)) /
+          (1 - Math.exp(-EXPONENTIAL_DECAY_RATE)),
+      );
+    default:
+      return ratioOf(amount, vestedMonths, duration);
+  }
+};
+
+// "monthly" evaluates the schedule on monthly boundaries only, which is all
+// the metrics and monthly tables need. "steps" adds the day before each
+// boundary, so charts joining the points draw step curves, milestones and
+// cliffs as steps rather than ramps. "daily" adds every day, for exports.
+export type ScheduleResolution = "daily" | "steps" | "monthly";
+
+// Each category's unlocked amount is a closed-form function of the month, so
+// only the sampled days are evaluated. Monthly boundaries are always among
+// them, which is where burns apply.
+export const generateUnlockSchedule = (
+  scenario: TokenomicsScenario,
+  resolution: ScheduleResolution = "monthly",
+): UnlockSchedule => {
+  const { totalSupply, distribution, decimals = DEFAULT_DECIMALS } = scenario;
+  const calendar = createCalendar(scenario);
+  const horizon = resolveHorizonMonths(scenario);
+  const boundaries = Array.from({ length: horizon + 1 }, (_, month) =>
+    calendar.monthToDay(month),
+  );
+  const days =
+    resolution === "daily"
+      ? Array.from({ length: boundaries[horizon] + 1 }, (_, day) => day)
+      : resolution === "steps"
+        ? boundaries.flatMap((day, month) => (month === 0 ? [day] : [day - 1, day]))
+        : boundaries;
+  const months = days.map((day) => calendar.dayToMonth(day));
+  const supply = toBaseUnits(totalSupply, decimals);
+  const allocations = categoryAllocations(scenario);
+
+  // Unlocked base units per category; amounts round down and every curve
+  // reaches the whole amount at the end, so the remainder lands on the final day
+  const unlockCurves = Object.entries(distribution).map(([category, data]) => {
+    const tokenAmount = allocations[category];
+    const tgeAmount = percentOf(tokenAmount, Math.min(data.tge, 100));
+    const remainingAmount = tokenAmount - tgeAmount;
+    // Linear release after the cliff shifts the whole vesting period back
+    const vestingStart = data.cliffRelease === "linear" ? data.cliff : 0;
+
+    // Only the TGE amount is out at TGE and during the cliff
+    const unlockedAt = (month: number) =>
+      month <= 0 || month < data.cliff
+        ? tgeAmount
+        : tgeAmount + vestedAmount(data, remainingAmount, month - vestingStart);
+    return [category, unlockedAt] as const;
+  });
+
+  const schedule = months.map((month) =>
+    Object.fromEntries(
+      unlockCurves.map(([category, unlockedAt]) => [category, unlockedAt(month)]),
+    ),
+  );
+  const genesisCirculating = schedule.map((point) =>
+    Object.values(point).reduce((sum, amount) => sum + amount, BigInt(0)),
+  );
+  const emitted = generateEmissions(scenario.emissions, totalSupply, months);
+  const circulating = genesisCirculating.map(
+    (amount, index) => fromBaseUnits(amount, decimals) + emitted[index],
+  );
+  const burned = generateBurns(scenario.burns, months, circulating);
+
+  // Calculate total circulating supply for each sampled day
+  return schedule.map((point, index) => {
+    const day = days[index];
+    const currentSupply = totalSupply + emitted[index];
+    const totalCirculating = circulating[index];
+    const netSupply = currentSupply - burned[index];
+    const netCirculating = totalCirculating - burned[index];
+
+    const date = calendar.dayToDate(day);
+
+    return {
+      day,
+      month: months[index],
+      date: date && toISODate(date),
+      totalSupply: currentSupply,
+      emitted: emitted[index],
+      percentEmitted: (emitted[index] / currentSupply) * 100,
+      circulating: totalCirculating,
+      percentCirculating: Math.min((totalCirculating / currentSupply) * 100, 100),
+      burned: burned[index],
+      netSupply,
+      percentNetSupply: (netSupply / currentSupply) * 100,
+      netCirculating,
+      percentNetCirculating: (netCirculating / currentSupply) * 100,
+      categories: Object.fromEntries(
+        Object.entries(point).map(([category, baseUnits]) => {
+          const circulating = fromBaseUnits(baseUnits, decimals);
+          return [
+            category,
+            {
+              circulating,
+              percentCirculating: (circulating / currentSupply) * 100,
+              baseUnits,
+            },
+          ];
+        }),
+      ),
+      genesisCirculatingBaseUnits: genesisCirculating[index],
+      genesisLockedBaseUnits: supply - genesisCirculating[index],
+    };
+  });
+};
+
+// The points of a schedule at any resolution that fall on monthly boundaries
+export const monthlyPoints = (unlockSchedule: UnlockSchedule) =>
+  unlockSchedule.filter((point) => Number.isInteger(point.month));
+
+export const monthlyUnlocks = (unlockSchedule: UnlockSchedule): MonthlyUnlock[] => {
+  const monthly = monthlyPoints(unlockSchedule);
+
+  return monthly.map((point, index) => {
+    const previous = monthly[index - 1];
+    const categories = Object.fromEntries(
+      Object.entries(point.categories).map(([category, { circulating }]) => [
+        category,
+        circulating - (previous?.categories[category].circulating ?? 0),
+      ]),
+    );
+    const emitted = point.emitted - (previous?.emitted ?? 0);
+
+    return {
+      month: point.month,
+      date: point.date,
+      unlocked:
+        Object.values(categories).reduce((sum, amount) => sum + amount, 0) +
+        emitted,
+      emitted,
+      categories,
+      circulating: point.netCirculating,
+      percentCirculating: (point.netCirculating / point.netSupply) * 100,
+      previousCirculating: previous?.netCirculating ?? 0,
+    };
+  });
+};
+
+// Price impact of selling the largest share in UNLOCK_SELL_SHARES of the
+// largest post-TGE monthly unlock into the launch pool
+export const largestUnlockImpact = (
+  scenario: TokenomicsScenario,
+  unlockSchedule: UnlockSchedule,
+) => {
+  const { liquidity, distribution } = scenario;
+  const lpData = liquidity && distribution[liquidity.category];
+  if (!lpData) return undefined;
+
+  const pool = createPool(categoryTokens(scenario)[liquidity.category], liquidity);
+  const largestUnlock = Math.max(
+    0,
+    ...monthlyUnlocks(unlockSchedule)
+      .slice(1)
+      .map(
+        (unlock) => unlock.unlocked - (unlock.categories[liquidity.category] ?? 0),
+      ),
+  );
+  const share = UNLOCK_SELL_SHARES[UNLOCK_SELL_SHARES.length - 1];
+  return sellImpact(pool, largestUnlock * share).priceImpact;
+};
+
+// `rules` are the health rules to check, e.g. BUILT_IN_RULES; without any
+// the metrics come back with no findings. Rules read the monthly boundaries
+// of the schedule only, so findings don't depend on its resolution.
+export const calculateMetrics = (
+  scenario: TokenomicsScenario,
+  unlockSchedule: UnlockSchedule = generateUnlockSchedule(scenario),
+  rules: TokenomicsRule[] = [],
+): TokenomicsMetrics => {
+  const { initialTokenPrice } = scenario;
+  const tge = unlockSchedule[0];
+  const final = unlockSchedule[unlockSchedule.length - 1];
+  // Valuations use burn-adjusted supply
+  const fdv = calculateFdv({ ...scenario, totalSupply: tge.netSupply });
+  const tgeCirculating = tge.netCirculating;
+  const tgeCirculatingPercent = (tgeCirculating / tge.netSupply) * 100;
+  const finalTotalSupply = final.netSupply;
+  const unlockImpact = largestUnlockImpact(scenario, unlockSchedule);
+  const initialMarketCap = tgeCirculating * initialTokenPrice;
+  // Supply over circulating supply is FDV over market cap at any nonzero
+  // price, and stays defined when the price is 0
+  const fdvToMcapRatio =
+    tgeCirculating > 0 ? tge.netSupply / tgeCirculating : Number.POSITIVE_INFINITY;
+
+  return {
+    tgeCirculating,
+    tgeCirculatingPercent,
+    initialMarketCap,
+    fdv,
+    fdvToMcapRatio,
+    finalTotalSupply,
+    finalFdv: Math.max(0, finalTotalSupply * initialTokenPrice),
+    totalBurned: final.burned,
+    findings: evaluateRules(
+      {
+        scenario,
+        unlockSchedule: monthlyPoints(unlockSchedule),
+        unlocks: monthlyUnlocks(unlockSchedule),
+        tgeCirculatingPercent,
+        fdvToMcapRatio,
+        unlockImpact,
+      },
+      scenario.rules,
+      rules,
+    ),
+  };
+};
+
+// Percentages are typed in tenths, but imported or locked categories can hold
+// finer values. Allocation is balanced in integer units at the finest
+// precision in the distribution (tenths at least), so rebalanced totals land
+// on exactly 100%.
+const MAX_PERCENT_DECIMALS = 6;
+
+const percentScale = (distribution: Distribution) => {
+  const decimals = Object.values(distribution).map(({ percentage }) => {
+    let places = 1;
+    while (
+      places < MAX_PERCENT_DECIMALS &&
+      Math.round(percentage * 10 ** places) / 10 ** places !== percentage
+    ) {
+      places++;
+    }
+    return places;
+  });
+  return 10 ** Math.max(1, ...decimals);
+};
+
+// New allocations (in units) for `donors` after giving up `excess` units
+// between them. Donors must hold at least `excess` in total.
+const takeFromDonors = (
+  donors: [string, number][],
+  excess: number,
+  strategy: RebalanceStrategy,
+): [string, number][] => {
+  if (strategy === "proportional") {
+    const remaining = donors.reduce((sum, [, units]) => sum + units, 0) - excess;
+    const parts = splitProportionally(
+      BigInt(remaining),
+      donors.map(([, units]) => units),
+    );
+    return donors.map(([category], index) => [category, Number(parts[index])]);
+  }
+
+  // Drain donors in order, largest first for the "largest" strategy
+  let left = excess;
+  return donors.map(([category, units]) => {
+    const taken = Math.min(left, units);
+    left -= taken;
+    return [category, units - taken];
+  });
+};
+
+// Applies a single numeric field change to a category. Percentage changes
+// that push the total over 100% are absorbed by the other categories
+// according to `rebalance`; locked categories are never touched. A change
+// the strategy can't absorb is refused and reported as `overflow`.
+export const applyDistributionChange = (
+  distribution: Distribution,
+  category: string,
+  field: DistributionField,
+  value: number,
+  rebalance: RebalanceConfig = DEFAULT_REBALANCE,
+): DistributionChange => {
+  const numValue = Math.max(0, Number(value));
+
+  if (field === "percentage") {
+    const percentage = Math.round(Math.min(numValue, 100) * 10) / 10;
+    const changed = {
+      ...distribution,
+      [category]: { ...distribution[category], percentage },
+    };
+    const scale = percentScale(changed);
+    const toUnits = (value: number) => Math.round(value * scale);
+    const others = Object.entries(distribution).filter(([cat]) => cat !== category);
+    const excess =
+      others.reduce((sum, [, data]) => sum + toUnits(data.percentage), 0) +
+      toUnits(percentage) -
+      100 * scale;
+
+    if (excess <= 0) {
+      return { distribution: changed, overflow: 0 };
+    }
+
+    const unlocked = others.filter(([, data]) => !data.locked);
+    const donors: [string, number][] = (
+      rebalance.strategy === "proportional"
+        ? unlocked
+        : rebalance.strategy === "largest"
+          ? [...unlocked].sort(([, a], [, b]) => b.percentage - a.percentage)
+          : rebalance.strategy === "reserve"
+            ? unlocked.filter(([cat]) => cat === rebalance.reserve)
+            : []
+    ).map(([cat, data]) => [cat, toUnits(data.percentage)]);
+    const available = donors.reduce((sum, [, units]) => sum + units, 0);
+
+    if (available < excess) {
+      return { distribution, overflow: (excess - available) / scale };
+    }
+
+    takeFromDonors(donors, excess, rebalance.strategy).forEach(([cat, units]) => {
+      changed[cat] = { ...changed[cat], percentage: units / scale };
+    });
+    return { distribution: changed, overflow: 0 };
+  }
+
+  return {
+    distribution: {
+      ...distribution,
+      [category]: {
+        ...distribution[category],
+        [field]:
+          field === "tge"
+            ? Math.min(100, Math.max(0, Math.round(numValue * 10) / 10))
+            : Math.max(0, Math.round(numValue)),
+      },
+    },
+    overflow: 0,
+  };
+};
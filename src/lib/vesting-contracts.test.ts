@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateVestingParams,
+  reconcileVestingParams,
+  toOpenZeppelinWallets,
+} from "./vesting-contracts";
+import {
+  DEFAULT_SCENARIO,
+  DEFAULT_VESTING,
+  TokenomicsScenario,
+  generateUnlockSchedule,
+} from "./tokenomics";
+
+const scenario: TokenomicsScenario = {
+  ...DEFAULT_SCENARIO,
+  tgeDate: "2025-01-01",
+  distribution: {
+    grants: {
+      ...DEFAULT_VESTING,
+      name: "Grants",
+      color: "#000000",
+      percentage: 100,
+      tge: 10,
+      duration: 0,
+      curve: "milestones",
+      milestones: [
+        { month: 3, percent: 0.2 },
+        { month: 1, percent: 0.1 },
+        { month: 6, percent: 99.7 },
+      ],
+    },
+  },
+};
+
+describe("generateVestingParams", () => {
+  it("pays milestones as exact differences of cumulative releases", () => {
+    const [grants] = generateVestingParams(scenario, { beneficiaries: {} }).categories;
+    const vested = BigInt(grants.vestedAmount);
+    const unit = vested / BigInt(1000);
+
+    expect(grants.milestones.map((milestone) => BigInt(milestone.amount))).toEqual([
+      unit,
+      unit * BigInt(2),
+      vested - unit * BigInt(3),
+    ]);
+  });
+});
+
+describe("reconcileVestingParams", () => {
+  const withDate = { ...DEFAULT_SCENARIO, tgeDate: "2025-01-15" };
+
+  it("assigns every base unit once, matching the unlock schedule", () => {
+    const params = generateVestingParams(withDate, { beneficiaries: {} });
+    const schedule = generateUnlockSchedule(withDate);
+
+    expect(reconcileVestingParams(params)).toEqual({
+      allocated: params.token.totalSupply,
+      difference: "0",
+      isExact: true,
+    });
+    params.categories.forEach(({ category, tgeAmount, totalAmount }) => {
+      expect(BigInt(tgeAmount)).toBe(schedule[0].categories[category].baseUnits);
+      expect(BigInt(totalAmount)).toBe(
+        schedule[schedule.length - 1].categories[category].baseUnits,
+      );
+    });
+  });
+
+  it("flags a category whose amounts don't add up", () => {
+    const params = generateVestingParams(withDate, { beneficiaries: {} });
+    const [first, ...rest] = params.categories;
+    const broken = { ...params, categories: [{ ...first, tgeAmount: "0" }, ...rest] };
+    expect(reconcileVestingParams(broken).isExact).toBe(false);
+  });
+});
+
+describe("toOpenZeppelinWallets", () => {
+  const cliffScenario = (cliff: number, duration: number): TokenomicsScenario => ({
+    ...scenario,
+    distribution: {
+      team: {
+        ...DEFAULT_VESTING,
+        name: "Team",
+        color: "#000000",
+        percentage: 100,
+        tge: 0,
+        cliff,
+        duration,
+        cliffRelease: "accrued",
+      },
+    },
+  });
+  const walletsFor = (cliff: number, duration: number) =>
+    toOpenZeppelinWallets(
+      generateVestingParams(cliffScenario(cliff, duration), { beneficiaries: {} }),
+    );
+
+  it("points cliff wallets at a concrete subclass", () => {
+    const { wallets, warnings } = walletsFor(6, 24);
+    expect(wallets[0].contract).toBe("VestingWalletCliff");
+    expect(wallets[0].cliffSeconds).toBeLessThan(wallets[0].constructorArgs[2]);
+    expect(warnings).toEqual([expect.stringContaining("VestingWalletCliff is abstract")]);
+  });
+
+  it("warns when the cliff outlasts vesting, which reverts on deploy", () => {
+    const { warnings } = walletsFor(12, 6);
+    expect(warnings).toContainEqual(
+      expect.stringContaining("Team: the cliff is longer than the vesting duration"),
+    );
+  });
+});
@@ -0,0 +1,241 @@
+// Vesting contract deployment parameters derived from a plan. Amounts are
+// exact base-unit strings that sum to the genesis supply; times are Unix
+// seconds taken from the scenario's calendar, so they match the schedule.
+
+import { createCalendar, parseISODate } from "./calendar";
+import {
+  ALLOCATION_TOLERANCE,
+  DistributionData,
+  TokenomicsScenario,
+  categoryAllocations,
+  totalAllocation,
+} from "./tokenomics";
+import { DEFAULT_DECIMALS, percentOf, percentsOf, toBaseUnits } from "./token-units";
+
+export type VestingExportTarget = "generic" | "openzeppelin";
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface VestingExportOptions {
+  // Beneficiary address per category key; missing ones use ZERO_ADDRESS
+  beneficiaries: Record<string, string>;
+}
+
+export interface VestingParams {
+  category: string;
+  name: string;
+  beneficiary: string;
+  curve: DistributionData["curve"];
+  // Base units, as decimal strings
+  totalAmount: string;
+  tgeAmount: string;
+  vestedAmount: string;
+  startTimestamp: number;
+  // Nothing beyond the TGE amount is released before this
+  cliffTimestamp: number;
+  cliffSeconds: number;
+  // Post-TGE amount vests from `vestingStartTimestamp` over `durationSeconds`
+  vestingStartTimestamp: number;
+  durationSeconds: number;
+  // 0 releases continuously; stepped curves release every interval
+  releaseIntervalSeconds: number;
+  // "milestones" curve only
+  milestones?: { timestamp: number; amount: string }[];
+}
+
+export interface VestingExport {
+  token: { decimals: number; totalSupply: string };
+  categories: VestingParams[];
+  warnings: string[];
+}
+
+// OpenZeppelin VestingWallet(beneficiary, startTimestamp, durationSeconds),
+// extended with VestingWalletCliff(cliffSeconds) when the category has a cliff.
+// VestingWalletCliff is abstract, so those wallets need a concrete subclass
+// whose constructor forwards both sets of arguments. The wallet only releases
+// linearly, so the TGE amount is sent directly.
+export interface OpenZeppelinVestingWallet {
+  category: string;
+  contract: "VestingWallet" | "VestingWalletCliff";
+  constructorArgs: [beneficiary: string, startTimestamp: number, durationSeconds: number];
+  cliffSeconds?: number;
+  fundingAmount: string;
+  tgeTransfer: string;
+}
+
+const SECONDS_PER_DAY = 86400;
+const MONTHS_PER_STEP: Partial<Record<DistributionData["curve"], number>> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export const generateVestingParams = (
+  scenario: TokenomicsScenario,
+  { beneficiaries }: VestingExportOptions,
+): VestingExport => {
+  const { distribution, totalSupply, tgeDate, decimals = DEFAULT_DECIMALS } = scenario;
+  const tge = parseISODate(tgeDate);
+  if (!tge) {
+    throw new Error("Set a TGE date to generate contract parameters.");
+  }
+  if (Math.abs(totalAllocation(distribution) - 100) > ALLOCATION_TOLERANCE) {
+    throw new Error(
+      `Allocations sum to ${totalAllocation(distribution).toFixed(2)}%; they must sum to 100% to reconcile with the total supply.`,
+    );
+  }
+
+  const calendar = createCalendar(scenario);
+  const start = tge.getTime() / 1000;
+  const timestampAt = (month: number) =>
+    start + calendar.monthToDay(month) * SECONDS_PER_DAY;
+
+  const supply = toBaseUnits(totalSupply, decimals);
+  // The same amounts the unlock schedule vests
+  const amounts = categoryAllocations(scenario);
+  const warnings: string[] = [];
+
+  const categories = Object.entries(distribution).map(([category, data]): VestingParams => {
+    const totalAmount = amounts[category];
+    const tgeAmount = percentOf(totalAmount, data.tge);
+    const vestedAmount = totalAmount - tgeAmount;
+    const vestingStartMonth = data.cliffRelease === "linear" ? data.cliff : 0;
+    const vestingStartTimestamp = timestampAt(vestingStartMonth);
+    const durationSeconds =
+      timestampAt(vestingStartMonth + data.duration) - vestingStartTimestamp;
+    const stepMonths = MONTHS_PER_STEP[data.curve];
+
+    const beneficiary = beneficiaries[category]?.trim() || ZERO_ADDRESS;
+    if (beneficiary === ZERO_ADDRESS) {
+      warnings.push(`${data.name}: no beneficiary address set`);
+    } else if (!ADDRESS_PATTERN.test(beneficiary)) {
+      warnings.push(`${data.name}: "${beneficiary}" is not a valid address`);
+    }
+    if (data.curve === "exponential") {
+      warnings.push(
+        `${data.name}: exponential vesting needs a custom contract; the parameters describe its start and end only`,
+      );
+    }
+
+    let milestones: VestingParams["milestones"];
+    if (data.curve === "milestones") {
+      // Amounts are differences of cumulative releases, rounded the same way
+      // as the unlock schedule, so they sum exactly and match it
+      const released: number[] = [];
+      let releasedAmount = BigInt(0);
+      milestones = [...data.milestones]
+        .sort((a, b) => a.month - b.month)
+        .map((milestone) => {
+          released.push(milestone.percent);
+          const cumulative = percentsOf(vestedAmount, released);
+          const amount = cumulative - releasedAmount;
+          releasedAmount = cumulative;
+          return {
+            timestamp: timestampAt(
+              Math.max(data.cliff, vestingStartMonth + milestone.month),
+            ),
+            amount: amount.toString(),
+          };
+        });
+      const releasedPercent = Number(
+        released.reduce((sum, percent) => sum + percent, 0).toFixed(4),
+      );
+      if (releasedPercent < 100) {
+        warnings.push(
+          `${data.name}: milestones release ${releasedPercent}% of the vested amount; the rest stays locked`,
+        );
+      }
+    }
+
+    return {
+      category,
+      name: data.name,
+      beneficiary,
+      curve: data.curve,
+      totalAmount: totalAmount.toString(),
+      tgeAmount: tgeAmount.toString(),
+      vestedAmount: vestedAmount.toString(),
+      startTimestamp: start,
+      cliffTimestamp: timestampAt(data.cliff),
+      cliffSeconds: timestampAt(data.cliff) - start,
+      vestingStartTimestamp,
+      durationSeconds,
+      // Calendar months vary in length, so stepped curves get the average step
+      releaseIntervalSeconds:
+        stepMonths && data.duration > 0
+          ? Math.round(durationSeconds / Math.ceil(data.duration / stepMonths))
+          : 0,
+      milestones,
+    };
+  });
+
+  return {
+    token: { decimals, totalSupply: supply.toString() },
+    categories,
+    warnings,
+  };
+};
+
+export const toOpenZeppelinWallets = ({
+  categories,
+}: VestingExport): { wallets: OpenZeppelinVestingWallet[]; warnings: string[] } => {
+  const warnings: string[] = [];
+
+  const wallets = categories.map((params): OpenZeppelinVestingWallet => {
+    if (params.curve !== "linear") {
+      warnings.push(
+        `${params.name}: VestingWallet releases linearly, not on a ${params.curve} curve`,
+      );
+    }
+
+    // With an accrued cliff vesting starts at TGE and the cliff gates release;
+    // with a linear cliff vesting simply starts after it
+    const hasCliff = params.cliffTimestamp > params.vestingStartTimestamp;
+    const cliffSeconds = params.cliffTimestamp - params.vestingStartTimestamp;
+    // VestingWalletCliff's constructor reverts with InvalidCliffDuration
+    if (hasCliff && cliffSeconds > params.durationSeconds) {
+      warnings.push(
+        `${params.name}: the cliff is longer than the vesting duration, so VestingWalletCliff can't be deployed; shorten the cliff or lengthen vesting`,
+      );
+    }
+    return {
+      category: params.category,
+      contract: hasCliff ? "VestingWalletCliff" : "VestingWallet",
+      constructorArgs: [
+        params.beneficiary,
+        params.vestingStartTimestamp,
+        params.durationSeconds,
+      ],
+      cliffSeconds: hasCliff ? cliffSeconds : undefined,
+      fundingAmount: params.vestedAmount,
+      tgeTransfer: params.tgeAmount,
+    };
+  });
+
+  if (wallets.some((wallet) => wallet.contract === "VestingWalletCliff")) {
+    warnings.push(
+      "VestingWalletCliff is abstract: deploy a subclass whose constructor passes constructorArgs to VestingWallet and cliffSeconds to VestingWalletCliff",
+    );
+  }
+
+  return { wallets, warnings };
+};
+
+// Checks that every base unit of the supply is assigned exactly once
+export const reconcileVestingParams = ({ token, categories }: VestingExport) => {
+  const allocated = categories.reduce(
+    (sum, params) => sum + BigInt(params.totalAmount),
+    BigInt(0),
+  );
+  const split = categories.every(
+    (params) =>
+      BigInt(params.tgeAmount) + BigInt(params.vestedAmount) ===
+      BigInt(params.totalAmount),
+  );
+  return {
+    allocated: allocated.toString(),
+    difference: (BigInt(token.totalSupply) - allocated).toString(),
+    isExact: split && allocated === BigInt(token.totalSupply),
+  };
+};